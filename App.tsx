@@ -1,65 +1,267 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Plus, Sparkles, AlertCircle, Headphones, Radio, Trash2, Zap } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { v4 as generateId } from 'uuid';
+import { Plus, Sparkles, AlertCircle, Headphones, Radio, Trash2, Zap, History, RefreshCw, Settings, Mic, ListPlus } from 'lucide-react';
 import { ArticleList } from './components/ArticleList';
-import { Player } from './components/Player';
-import { summarizeArticles, generateSpeech } from './services/geminiService';
-import { Article, GenerationState, TTSVoice } from './types';
+import { BriefingHistory } from './components/BriefingHistory';
+import { ImportPanel } from './components/ImportPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { BriefingOptionsPanel } from './components/BriefingOptionsPanel';
+import { SchedulePanel } from './components/SchedulePanel';
+import { UsagePanel } from './components/UsagePanel';
+import { PronunciationPanel } from './components/PronunciationPanel';
+import { MusicPanel } from './components/MusicPanel';
+import { UndoToast } from './components/UndoToast';
+import { SummaryProgress } from './components/SummaryProgress';
+import { ScriptReview } from './components/ScriptReview';
+import { Player, MIN_SPEED, MAX_SPEED } from './components/Player';
+import { createProvider, DEFAULT_PROVIDER_SETTINGS } from './services/providers';
+import { BriefingProvider, ProviderUsage, SpeakerVoice } from './services/briefingProvider';
+import { DIALOGUE_HOSTS, isDialogue } from './services/dialogueService';
+import { storage } from './services/storageService';
+import { synthesizeChunks } from './services/speechPipeline';
+import { buildSegments } from './services/timingService';
+import { ChapterPlan, OPENING_CHAPTER_TITLE, ScriptSection, UPDATE_CHAPTER_TITLE, chunkSections, parseSections, sectionsToScript, timeChapters } from './services/chapterService';
+import { concatAudioBuffers, concatPcm, decodeAudioData } from './services/audioUtils';
+import { ImportedArticle } from './services/ingestionService';
+import { BUILT_IN_PRESETS, DEFAULT_BRIEFING_OPTIONS, SummaryContext, formatArticle, updateOptions } from './services/promptService';
+import { analyzeQueue, mergeArticles, storyGroupIndices } from './services/similarityService';
+import { RemovedArticle, moveArticle, removeArticles, restoreArticles } from './services/queueService';
+import { toReviewSections } from './services/reviewService';
+import { CitedSentence, SentenceClaim, annotateSegments, extractSourceTags, groundSentences } from './services/attributionService';
+import { DEFAULT_PRONUNCIATION, prepareForSpeech } from './services/pronunciationService';
+import { DEFAULT_PLAYBACK_LEVEL } from './services/loudnessService';
+import { DEFAULT_MUSIC, MUSIC_SOUND_KINDS, MixedAudio, MusicSounds, bundledSounds, mixBriefing } from './services/mixService';
+import { CondensePlan, condenseArticles, estimatePromptChars, planCondensing } from './services/condenseService';
+import { appendUpdate, articleVersion, articlesMissingFrom, briefingSegments, joinScripts, markBriefed, shiftChapters, shiftSegments } from './services/updateService';
+import { DEFAULT_SCHEDULE, startScheduler } from './services/scheduleService';
+import { classifyError, isCancelled } from './services/errors';
+import { withRetry } from './services/retry';
+import { CacheStats, contentCache, hashKey } from './services/cacheService';
+import { DEFAULT_BUDGET, checkBudget, estimateGenerationCost, estimateSynthesisCost, formatCost, toUsageRecord } from './services/usageService';
+import { Article, ArticleProgress, Briefing, BriefingOptions, BriefingPreset, BriefingSchedule, GenerationState, MusicSettings, MusicSoundKind, PlaybackLevelSettings, PronunciationSettings, ProviderSettings, TTSVoice, UsageBudget, UsageRecord } from './types';
 
-// Simple ID generator
-const generateId = () => Math.random().toString(36).substr(2, 9);
+// Per article; long ones are condensed before summarizing (see condenseService)
+const MAX_CHARS = 100_000;
 
-const MAX_CHARS = 5000;
+// Wait for slider drags to settle before re-rendering the music mix
+const MIX_DEBOUNCE_MS = 400;
 
-// Helper to parse errors into user-friendly messages (Translated to PT)
-const getFriendlyErrorMessage = (error: any): string => {
-  const msg = (error?.message || '').toLowerCase();
-  
-  if (msg.includes('api_key') || msg.includes('apikey')) {
-    return 'Chave de API ausente ou inválida. Verifique suas configurações.';
-  }
-  if (msg.includes('quota') || msg.includes('429')) {
-    return 'Limite de uso da API excedido. Tente novamente mais tarde.';
-  }
-  if (msg.includes('safety') || msg.includes('blocked') || msg.includes('harmful')) {
-    return 'O conteúdo foi sinalizado pelos filtros de segurança. Revise seus artigos.';
-  }
-  if (msg.includes('network') || msg.includes('fetch') || msg.includes('connection')) {
-    return 'Erro de conexão. Verifique sua internet e tente novamente.';
-  }
-  if (msg.includes('503') || msg.includes('overloaded') || msg.includes('service unavailable')) {
-    return 'O serviço de IA está sobrecarregado. Aguarde um momento e tente novamente.';
-  }
-  if (msg.includes('no audio data')) {
-    return 'Falha ao gerar dados de áudio. Tente novamente.';
-  }
-  
-  return error.message || "Ocorreu um erro inesperado. Tente novamente.";
+// User-provided music files, decoded at the context's rate
+const loadCustomSounds = async (ctx: BaseAudioContext): Promise<MusicSounds> => {
+  const sounds: MusicSounds = {};
+  await Promise.all(MUSIC_SOUND_KINDS.map(async kind => {
+    const stored = await storage.loadMusicSound(kind);
+    if (!stored) return;
+    try {
+      sounds[kind] = await ctx.decodeAudioData(stored.data.slice(0));
+    } catch (error) {
+      console.warn(`Failed to decode the ${kind} music file:`, error);
+    }
+  }));
+  return sounds;
 };
 
+// The briefing an update is being appended to
+interface UpdateBase {
+  briefing: Briefing;
+  pcm: Uint8Array;
+  // Leading Player buffers that hold the briefing's own audio
+  bufferCount: number;
+}
+
+// A briefing whose script is done but whose audio is still being synthesized
+interface PendingSynthesis {
+  requestTime: number;
+  provider: BriefingProvider;
+  script: string;
+  voice: TTSVoice;
+  // Set for dialogue briefings: one voice per host
+  speakers?: SpeakerVoice[];
+  options: BriefingOptions;
+  chunks: string[];
+  chapters: ChapterPlan[];
+  pcm: (Uint8Array | null)[];
+  articleIds: string[];
+  articleTitles: string[];
+  articleVersions: string[];
+  // Per-sentence sources and grounding check, for the transcript
+  claims: SentenceClaim[];
+  // Set when the audio is an update to append to an existing briefing
+  base?: UpdateBase;
+}
+
+// A summarized script not voiced yet, possibly held for review
+interface ScriptDraft {
+  requestTime: number;
+  provider: BriefingProvider;
+  sections: ScriptSection[];
+  // Sources the summarizer gave per sentence
+  cited: CitedSentence[];
+  options: BriefingOptions;
+  // What the sections' article indices refer to
+  articles: Article[];
+  voice: TTSVoice;
+  // Only used if the script turns out to be a dialogue
+  coHostVoice?: TTSVoice;
+  base?: UpdateBase;
+}
+
+const defaultBriefingTitle = (createdAt: number) =>
+  `Briefing de ${new Date(createdAt).toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}`;
+
+const errorMessage = (error: unknown) => classifyError(error).userMessage;
+
 function App() {
   const [articles, setArticles] = useState<Article[]>([]);
   const [inputText, setInputText] = useState('');
   const [inputTitle, setInputTitle] = useState('');
   const [generationState, setGenerationState] = useState<GenerationState>({ status: 'idle' });
   const [summaryText, setSummaryText] = useState<string | null>(null);
-  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  // One entry per script chunk; null until that chunk has been synthesized
+  const [audioBuffers, setAudioBuffers] = useState<(AudioBuffer | null)[]>([]);
+  // Script chunks of the briefing being generated, for its live timing map
+  const [scriptChunks, setScriptChunks] = useState<string[]>([]);
+  const [chapterPlan, setChapterPlan] = useState<ChapterPlan[]>([]);
+  const [scriptClaims, setScriptClaims] = useState<SentenceClaim[]>([]);
+  // Remounts the Player for each new playback session
+  const [playerKey, setPlayerKey] = useState('');
   const [selectedVoice, setSelectedVoice] = useState<TTSVoice>(TTSVoice.Kore);
+  const [coHostVoice, setCoHostVoice] = useState<TTSVoice>(TTSVoice.Puck);
   const [autoGenerate, setAutoGenerate] = useState(false);
+  const [briefings, setBriefings] = useState<Briefing[]>([]);
+  const [activeBriefingId, setActiveBriefingId] = useState<string | null>(null);
+  const [fetchProxy, setFetchProxy] = useState('');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [playbackLevel, setPlaybackLevel] = useState<PlaybackLevelSettings>(DEFAULT_PLAYBACK_LEVEL);
+  const [briefingOptions, setBriefingOptions] = useState<BriefingOptions>(DEFAULT_BRIEFING_OPTIONS);
+  const [customPresets, setCustomPresets] = useState<BriefingPreset[]>([]);
+  const [schedule, setSchedule] = useState<BriefingSchedule>(DEFAULT_SCHEDULE);
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>([]);
+  const [budget, setBudget] = useState<UsageBudget>(DEFAULT_BUDGET);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [updateBase, setUpdateBase] = useState<UpdateBase | null>(null);
+  // Pause after summarizing so the script can be edited before paying for audio
+  const [reviewScript, setReviewScript] = useState(false);
+  const [reviewDraft, setReviewDraft] = useState<ScriptDraft | null>(null);
+  const [pronunciation, setPronunciation] = useState<PronunciationSettings>(DEFAULT_PRONUNCIATION);
+  const [music, setMusic] = useState<MusicSettings>(DEFAULT_MUSIC);
+  const [customSounds, setCustomSounds] = useState<MusicSounds>({});
+  // Music mixed over a finished briefing, for the briefing and length it was made from
+  const [mixedAudio, setMixedAudio] = useState<(MixedAudio & { briefingId: string; duration: number }) | null>(null);
+  // Last removal from the queue, while it can still be undone
+  const [undoRemoval, setUndoRemoval] = useState<{ id: string; message: string; removed: RemovedArticle[] } | null>(null);
   
   // Persist AudioContext to avoid creating multiple contexts
   const audioContextRef = useRef<AudioContext | null>(null);
   // Track the latest generation request to handle race conditions
   const lastGenRequestRef = useRef<number>(0);
+  const pendingSynthesisRef = useRef<PendingSynthesis | null>(null);
+  // Aborts the in-flight summarize/synthesize requests
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Scheduled time of the last automatic briefing, so each runs only once
+  const scheduleLastRunRef = useRef(0);
+  // Read at generation time without making handleGenerate depend on them
+  const usageLogRef = useRef(usageLog);
+  usageLogRef.current = usageLog;
+  const budgetRef = useRef(budget);
+  budgetRef.current = budget;
+  const reviewScriptRef = useRef(reviewScript);
+  reviewScriptRef.current = reviewScript;
+  const pronunciationRef = useRef(pronunciation);
+  pronunciationRef.current = pronunciation;
+  // Don't write the queue back to storage until it has been restored from it
+  const [isHydrated, setIsHydrated] = useState(false);
 
   useEffect(() => {
     // Init AudioContext on mount
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     audioContextRef.current = new AudioContextClass({ sampleRate: 24000 });
+
+    // Restore the queue and the last briefing so a reload doesn't lose paid work
+    let cancelled = false;
+    const ctx = audioContextRef.current;
+    (async () => {
+      try {
+        const [savedArticles, savedBriefings, activeId, savedProxy, savedProvider, savedOptions, savedPresets, savedSpeed, savedSchedule, savedLastRun, savedUsage, savedBudget, savedReviewScript, savedPronunciation, savedLevel, savedMusic] = await Promise.all([
+          storage.loadQueue(),
+          storage.listBriefings(),
+          storage.loadActiveBriefingId(),
+          storage.loadSetting<string>('fetchProxy'),
+          storage.loadSetting<ProviderSettings>('provider'),
+          storage.loadSetting<BriefingOptions>('briefingOptions'),
+          storage.loadSetting<BriefingPreset[]>('presets'),
+          storage.loadSetting<number>('playbackSpeed'),
+          storage.loadSetting<BriefingSchedule>('schedule'),
+          storage.loadSetting<number>('scheduleLastRun'),
+          storage.listUsage(),
+          storage.loadSetting<UsageBudget>('budget'),
+          storage.loadSetting<boolean>('reviewScript'),
+          storage.loadSetting<PronunciationSettings>('pronunciation'),
+          storage.loadSetting<PlaybackLevelSettings>('playbackLevel'),
+          storage.loadSetting<MusicSettings>('music'),
+        ]);
+        if (cancelled) return;
+        setArticles(savedArticles);
+        setBriefings(savedBriefings);
+        setFetchProxy(savedProxy ?? '');
+        if (savedProvider) setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, ...savedProvider });
+        if (savedOptions) setBriefingOptions({ ...DEFAULT_BRIEFING_OPTIONS, ...savedOptions });
+        // Presets saved by older versions may lack newer option fields
+        setCustomPresets((savedPresets ?? []).map(p => ({ ...p, options: { ...DEFAULT_BRIEFING_OPTIONS, ...p.options } })));
+        if (savedSpeed) setPlaybackSpeed(Math.min(Math.max(savedSpeed, MIN_SPEED), MAX_SPEED));
+        if (savedSchedule) setSchedule({ ...DEFAULT_SCHEDULE, ...savedSchedule });
+        scheduleLastRunRef.current = savedLastRun ?? 0;
+        // Calls made before the log finished loading are kept
+        setUsageLog(prev => [...savedUsage, ...prev]);
+        if (savedBudget) setBudget({ ...DEFAULT_BUDGET, ...savedBudget });
+        setReviewScript(savedReviewScript ?? false);
+        if (savedPronunciation) setPronunciation({ ...DEFAULT_PRONUNCIATION, ...savedPronunciation });
+        if (savedLevel) setPlaybackLevel({ ...DEFAULT_PLAYBACK_LEVEL, ...savedLevel });
+        if (savedMusic) setMusic({ ...DEFAULT_MUSIC, ...savedMusic });
+        const sounds = await loadCustomSounds(ctx);
+        if (cancelled) return;
+        setCustomSounds(sounds);
+        const active = savedBriefings.find(b => b.id === activeId);
+        const audio = active && await storage.loadBriefingAudio(active.id);
+        if (active && audio) {
+          const buffer = await decodeAudioData(audio.pcm, ctx, audio.sampleRate, 1);
+          if (cancelled) return;
+          setActiveBriefingId(active.id);
+          setPlayerKey(active.id);
+          setSummaryText(active.script);
+          setSelectedVoice(active.voice);
+          if (active.coHostVoice) setCoHostVoice(active.coHostVoice);
+          setAudioBuffers([buffer]);
+          setGenerationState({ status: 'ready' });
+        }
+      } catch (error) {
+        console.warn('Failed to restore saved state:', error);
+      } finally {
+        if (!cancelled) setIsHydrated(true);
+      }
+    })();
+
     return () => {
+      cancelled = true;
       audioContextRef.current?.close();
     };
   }, []);
 
+  // Effect: Show current cache usage whenever the settings are opened
+  useEffect(() => {
+    if (showSettings) refreshCacheStats();
+  }, [showSettings]);
+
+  // Effect: Persist the queue whenever it changes
+  useEffect(() => {
+    if (!isHydrated) return;
+    storage.saveQueue(articles).catch(error => {
+      console.warn('Failed to save queue:', error);
+    });
+  }, [articles, isHydrated]);
+
   const handleAddArticle = () => {
     if (!inputText.trim()) return;
 
@@ -75,74 +277,925 @@ function App() {
     setInputTitle('');
   };
 
+  const handleImportArticles = (imported: ImportedArticle[]) => {
+    const now = Date.now();
+    const newArticles: Article[] = imported.map((item, i) => ({
+      id: generateId(),
+      title: item.title || `Artigo ${articles.length + i + 1}`,
+      content: item.content.slice(0, MAX_CHARS),
+      timestamp: now,
+      sourceUrl: item.sourceUrl,
+    }));
+    setArticles(prev => [...prev, ...newArticles]);
+  };
+
+  const handleProxyChange = (proxy: string) => {
+    setFetchProxy(proxy);
+    storage.saveSetting('fetchProxy', proxy).catch(error => {
+      console.warn('Failed to save proxy setting:', error);
+    });
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    storage.saveSetting('provider', settings).catch(error => {
+      console.warn('Failed to save provider settings:', error);
+    });
+  };
+
+  const handleBriefingOptionsChange = (options: BriefingOptions) => {
+    setBriefingOptions(options);
+    storage.saveSetting('briefingOptions', options).catch(error => {
+      console.warn('Failed to save briefing options:', error);
+    });
+  };
+
+  const updateCustomPresets = (presets: BriefingPreset[]) => {
+    setCustomPresets(presets);
+    storage.saveSetting('presets', presets).catch(error => {
+      console.warn('Failed to save presets:', error);
+    });
+  };
+
+  const handleSavePreset = (name: string) => {
+    updateCustomPresets([...customPresets, { id: generateId(), name, options: briefingOptions }]);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    updateCustomPresets(customPresets.filter(p => p.id !== id));
+  };
+
+  const handlePlaybackSpeedChange = (speed: number) => {
+    setPlaybackSpeed(speed);
+    storage.saveSetting('playbackSpeed', speed).catch(error => {
+      console.warn('Failed to save playback speed:', error);
+    });
+  };
+
+  const handlePlaybackLevelChange = (level: PlaybackLevelSettings) => {
+    setPlaybackLevel(level);
+    storage.saveSetting('playbackLevel', level).catch(error => {
+      console.warn('Failed to save playback level:', error);
+    });
+  };
+
+  const handleMusicChange = (next: MusicSettings) => {
+    setMusic(next);
+    storage.saveSetting('music', next).catch(error => {
+      console.warn('Failed to save music settings:', error);
+    });
+  };
+
+  const handleMusicUpload = async (kind: MusicSoundKind, file: File) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    const data = await file.arrayBuffer();
+    let sound: AudioBuffer;
+    try {
+      // Decoding detaches the buffer it's given; keep the original to store
+      sound = await ctx.decodeAudioData(data.slice(0));
+    } catch {
+      throw new Error(`Não foi possível ler "${file.name}" como áudio.`);
+    }
+    setCustomSounds(prev => ({ ...prev, [kind]: sound }));
+    handleMusicChange({ ...music, custom: { ...music.custom, [kind]: file.name } });
+    storage.saveMusicSound(kind, { name: file.name, data }).catch(error => {
+      console.warn('Failed to save music file:', error);
+    });
+  };
+
+  const handleMusicReset = (kind: MusicSoundKind) => {
+    const { [kind]: _removed, ...custom } = music.custom;
+    setCustomSounds(prev => {
+      const { [kind]: _sound, ...rest } = prev;
+      return rest;
+    });
+    handleMusicChange({ ...music, custom });
+    storage.removeMusicSound(kind).catch(error => {
+      console.warn('Failed to remove music file:', error);
+    });
+  };
+
+  const recordScheduledRun = (runAt: number) => {
+    scheduleLastRunRef.current = runAt;
+    storage.saveSetting('scheduleLastRun', runAt).catch(error => {
+      console.warn('Failed to save schedule state:', error);
+    });
+  };
+
+  const handleScheduleChange = (next: BriefingSchedule) => {
+    setSchedule(next);
+    // Editing the schedule shouldn't catch up a run that was due earlier today
+    recordScheduledRun(Date.now());
+    storage.saveSetting('schedule', next).catch(error => {
+      console.warn('Failed to save schedule:', error);
+    });
+  };
+
+  const recordUsage = (providerId: string, usage: ProviderUsage) => {
+    const record = toUsageRecord(providerId, usage, generateId(), Date.now());
+    setUsageLog(prev => [...prev, record]);
+    storage.appendUsage(record).catch(error => {
+      console.warn('Failed to save usage record:', error);
+    });
+  };
+
+  const handleBudgetChange = (next: UsageBudget) => {
+    setBudget(next);
+    storage.saveSetting('budget', next).catch(error => {
+      console.warn('Failed to save budget:', error);
+    });
+  };
+
+  const handleReviewScriptChange = (enabled: boolean) => {
+    setReviewScript(enabled);
+    storage.saveSetting('reviewScript', enabled).catch(error => {
+      console.warn('Failed to save review setting:', error);
+    });
+  };
+
+  const handlePronunciationChange = (next: PronunciationSettings) => {
+    setPronunciation(next);
+    storage.saveSetting('pronunciation', next).catch(error => {
+      console.warn('Failed to save pronunciation rules:', error);
+    });
+  };
+
+  const handleClearUsage = async () => {
+    if (!window.confirm("Tem certeza que deseja apagar o histórico de uso?")) return;
+    setUsageLog([]);
+    try {
+      await storage.clearUsage();
+    } catch (error) {
+      console.warn('Failed to clear usage log:', error);
+    }
+  };
+
+  const refreshCacheStats = () => {
+    contentCache.stats().then(setCacheStats).catch(error => {
+      console.warn('Failed to read cache stats:', error);
+    });
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm("Tem certeza que deseja limpar o cache de roteiros e áudio?")) return;
+    try {
+      await contentCache.clear();
+    } catch (error) {
+      console.warn('Failed to clear cache:', error);
+    }
+    refreshCacheStats();
+  };
+
+  // Checks the spending limits before a generation; false means don't generate.
+  // Scheduled runs have nobody to confirm with, so they're skipped instead.
+  const confirmWithinBudget = (estimate: number, { scheduled = false }: { scheduled?: boolean } = {}) => {
+    const currentBudget = budgetRef.current;
+    const check = checkBudget(currentBudget, usageLogRef.current, estimate, Date.now());
+    if (!check.exceeded) return true;
+
+    const isDaily = check.exceeded === 'daily';
+    const message = `Este briefing (estimativa de ${formatCost(estimate)}) ultrapassaria o limite ${isDaily ? 'diário' : 'mensal'} de ${formatCost(isDaily ? currentBudget.dailyLimit : currentBudget.monthlyLimit)}. Já gasto: ${formatCost(isDaily ? check.spentToday : check.spentThisMonth)}.`;
+    if (scheduled) {
+      console.warn('Scheduled briefing skipped over budget:', message);
+      setGenerationState({ status: 'error', error: `Briefing agendado não gerado. ${message}` });
+      return false;
+    }
+    if (currentBudget.action === 'block') {
+      setGenerationState({ status: 'error', error: message });
+      return false;
+    }
+    return window.confirm(`${message} Gerar mesmo assim?`);
+  };
+
+  // Removals can be undone for a few seconds instead of asking first
+  const removeWithUndo = (ids: string[], message: string) => {
+    const { remaining, removed } = removeArticles(articles, ids);
+    if (removed.length === 0) return;
+    setArticles(remaining);
+    setUndoRemoval({ id: generateId(), message, removed });
+  };
+
   const handleRemoveArticle = (id: string) => {
-    setArticles(articles.filter(a => a.id !== id));
+    const article = articles.find(a => a.id === id);
+    removeWithUndo([id], `"${article?.title}" removido da fila.`);
   };
 
   const handleClearAll = () => {
     if (articles.length === 0) return;
-    if (window.confirm("Tem certeza que deseja remover todos os artigos?")) {
-      setArticles([]);
+    removeWithUndo(articles.map(a => a.id), `${articles.length} ${articles.length === 1 ? 'artigo removido' : 'artigos removidos'} da fila.`);
+  };
+
+  const handleUndoRemoval = () => {
+    if (!undoRemoval) return;
+    setArticles(prev => restoreArticles(prev, undoRemoval.removed));
+    setUndoRemoval(null);
+  };
+
+  // New text makes the article news again: it loses its "narrated" mark
+  // and the next update covers it
+  const handleUpdateArticle = (id: string, changes: Partial<Article>) => {
+    setArticles(prev => prev.map(a => {
+      if (a.id !== id) return a;
+      const updated = { ...a, ...changes };
+      return articleVersion(updated) === articleVersion(a) ? updated : { ...updated, briefedAt: undefined };
+    }));
+  };
+
+  const handleMoveArticle = (id: string, toIndex: number) => {
+    setArticles(prev => moveArticle(prev, id, toIndex));
+  };
+
+  // Folds a flagged duplicate into the article it repeats
+  const handleMergeDuplicate = (id: string, originalId: string) => {
+    setArticles(prev => {
+      const original = prev.find(a => a.id === originalId);
+      const duplicate = prev.find(a => a.id === id);
+      if (!original || !duplicate) return prev;
+      const merged = mergeArticles(original, duplicate, MAX_CHARS);
+      return prev.filter(a => a.id !== id).map(a => (a.id === originalId ? merged : a));
+    });
+  };
+
+  const handleDismissDuplicate = (id: string, originalId: string) => {
+    setArticles(prev => prev.map(a => (a.id === id ? { ...a, notDuplicateOf: [...(a.notDuplicateOf ?? []), originalId] } : a)));
+  };
+
+  // Cancels whatever is in flight and returns the controller for the next request
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  };
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Synthesizes the given chunks (all by default) of a pending briefing,
+  // streaming each decoded buffer to the Player as soon as it arrives
+  const synthesizePending = useCallback(async (pending: PendingSynthesis, indices?: number[]) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+
+    const isStale = () => lastGenRequestRef.current !== pending.requestTime;
+    const total = pending.chunks.length;
+    const countReady = () => pending.pcm.filter(Boolean).length;
+    const bufferOffset = pending.base?.bufferCount ?? 0;
+    const pronunciation = pronunciationRef.current;
+    const { signal } = startRequest();
+
+    setGenerationState({ status: 'generating_audio', audioProgress: { ready: countReady(), total, failed: [] } });
+
+    // Speech depends only on the text, the voices and the model, so chunks
+    // shared with an earlier briefing come straight from the cache. The
+    // text is what the voice reads: pronunciation rules already applied.
+    const synthesizeChunk = async (chunk: string) => {
+      const { provider } = pending;
+      const text = prepareForSpeech(chunk, pending.options.language, pronunciation, Boolean(pending.speakers));
+      const key = await hashKey('audio', provider.id, provider.models.tts, pending.speakers ?? pending.voice, text);
+      const cached = await contentCache.get<Uint8Array>(key).catch(() => undefined);
+      if (cached) return cached;
+
+      const pcm = await withRetry(
+        retrySignal => pending.speakers
+          ? provider.synthesizeDialogue!(text, pending.speakers, retrySignal)
+          : provider.synthesize(text, pending.voice, retrySignal),
+        {
+          signal,
+          onRetry: (attempt, delayMs) => {
+            if (!isStale()) setGenerationState(prev => ({ ...prev, retry: { attempt, delayMs } }));
+          },
+        }
+      );
+      contentCache.put('audio', key, pcm).catch(error => {
+        console.warn('Failed to cache audio:', error);
+      });
+      return pcm;
+    };
+
+    const failures = await synthesizeChunks(
+      pending.chunks,
+      synthesizeChunk,
+      {
+        indices,
+        signal,
+        onChunk: async (index, pcm) => {
+          const buffer = await decodeAudioData(pcm, ctx, pending.provider.sampleRate, 1);
+          if (isStale()) return;
+          pending.pcm[index] = pcm;
+          setAudioBuffers(prev => prev.map((b, i) => (i === bufferOffset + index ? buffer : b)));
+          setGenerationState({ status: 'generating_audio', audioProgress: { ready: countReady(), total, failed: [] } });
+        },
+      }
+    );
+
+    if (isStale()) return;
+
+    if (failures.length > 0) {
+      console.error('Speech Chunk Errors:', failures);
+      // Report the real cause rather than the cancellations it triggered
+      const cause = failures.find(f => !isCancelled(f.error)) ?? failures[0];
+      setGenerationState({
+        status: 'error',
+        error: errorMessage(cause.error),
+        audioProgress: { ready: countReady(), total, failed: failures.map(f => f.index) },
+      });
+      return;
+    }
+
+    // All chunks are in: store the briefing as one contiguous recording
+    const newPcm = concatPcm(pending.pcm as Uint8Array[]);
+    const { sampleRate } = pending.provider;
+    const createdAt = Date.now();
+    const durations = pending.pcm.map(p => p!.byteLength / 2 / sampleRate);
+    const timed = {
+      script: pending.script,
+      duration: newPcm.byteLength / 2 / sampleRate,
+      segments: annotateSegments(buildSegments(pending.chunks, durations), pending.claims),
+      chapters: timeChapters(pending.chapters, durations),
+      articleIds: pending.articleIds,
+      articleTitles: pending.articleTitles,
+      articleVersions: pending.articleVersions,
+    };
+    const { base } = pending;
+    const briefing: Briefing = base
+      ? appendUpdate(base.briefing, timed, createdAt)
+      : {
+          ...timed,
+          id: generateId(),
+          title: defaultBriefingTitle(createdAt),
+          createdAt,
+          voice: pending.voice,
+          coHostVoice: pending.speakers?.[1].voice,
+          options: pending.options,
+        };
+    const pcm = base ? concatPcm([base.pcm, newPcm]) : newPcm;
+    pendingSynthesisRef.current = null;
+    setUpdateBase(null);
+    setActiveBriefingId(briefing.id);
+    setBriefings(prev => (base ? prev.map(b => (b.id === briefing.id ? briefing : b)) : [briefing, ...prev]));
+    setArticles(prev => markBriefed(prev, pending.articleIds, createdAt));
+    setGenerationState({ status: 'ready' });
+
+    storage.saveBriefing(briefing, { pcm, sampleRate }).catch(error => {
+      console.warn('Failed to save briefing:', error);
+    });
+  }, []);
+
+  // Chunks an approved script and synthesizes it
+  const voiceDraft = useCallback(async (draft: ScriptDraft) => {
+    const { base } = draft;
+    const script = sectionsToScript(draft.sections);
+    setSummaryText(base ? joinScripts(base.briefing.script, script) : script);
+
+    // If the model ignored the dialogue format, voice whatever it wrote as a monologue
+    const speakers: SpeakerVoice[] | undefined = draft.options.mode === 'dialogue' && draft.coHostVoice && isDialogue(script)
+      ? [{ speaker: DIALOGUE_HOSTS[0], voice: draft.voice }, { speaker: DIALOGUE_HOSTS[1], voice: draft.coHostVoice }]
+      : undefined;
+    const { chunks, chapters } = chunkSections(draft.sections, draft.articles, Boolean(speakers), base ? UPDATE_CHAPTER_TITLE : OPENING_CHAPTER_TITLE);
+    const claims = groundSentences(draft.sections, draft.cited, draft.articles);
+    const pending: PendingSynthesis = {
+      requestTime: draft.requestTime,
+      provider: draft.provider,
+      script,
+      voice: draft.voice,
+      speakers,
+      options: draft.options,
+      chunks,
+      chapters,
+      pcm: chunks.map(() => null),
+      articleIds: draft.articles.map(a => a.id),
+      articleTitles: draft.articles.map(a => a.title),
+      articleVersions: draft.articles.map(articleVersion),
+      claims,
+      base,
+    };
+    pendingSynthesisRef.current = pending;
+    setScriptChunks(chunks);
+    setChapterPlan(chapters);
+    setScriptClaims(claims);
+    if (base) {
+      setAudioBuffers(prev => [...prev.slice(0, base.bufferCount), ...chunks.map(() => null)]);
+    } else {
+      setAudioBuffers(chunks.map(() => null));
+      setPlayerKey(String(draft.requestTime));
+    }
+    await synthesizePending(pending);
+  }, [synthesizePending]);
+
+  // Voices the script right away, or holds it until it's approved.
+  // Scheduled runs have nobody to approve it before the commute, so they
+  // never stop for review.
+  const continueWithDraft = useCallback(async (draft: ScriptDraft, { scheduled = false }: { scheduled?: boolean } = {}) => {
+    if (reviewScriptRef.current && !scheduled) {
+      setReviewDraft(draft);
+      setGenerationState({ status: 'reviewing' });
+      return;
     }
+    await voiceDraft(draft);
+  }, [voiceDraft]);
+
+  // Summarizes with retries, unless this exact input was summarized before
+  // with the same options and model
+  const summarizeCached = async (
+    provider: BriefingProvider,
+    contentList: string[],
+    options: BriefingOptions,
+    requestTime: number,
+    signal: AbortSignal,
+    context: SummaryContext = {}
+  ) => {
+    const hasContext = Boolean(context.coveredTitles?.length || context.storyGroups?.length);
+    const key = await hashKey('summary', provider.id, provider.models.summary, options, contentList, ...(hasContext ? [context] : []));
+    const cached = await contentCache.get<string>(key).catch(() => undefined);
+    if (cached) return cached;
+
+    const summary = await withRetry(retrySignal => provider.summarize(contentList, options, retrySignal, context), {
+      signal,
+      onRetry: (attempt, delayMs) => {
+        if (lastGenRequestRef.current === requestTime) {
+          setGenerationState(prev => ({ ...prev, status: 'summarizing', retry: { attempt, delayMs } }));
+        }
+      },
+    });
+    contentCache.put('summary', key, summary).catch(error => {
+      console.warn('Failed to cache summary:', error);
+    });
+    return summary;
   };
 
-  const handleGenerate = useCallback(async () => {
+  // Map step for queues too long for one prompt; returns the articles to
+  // summarize, with long ones replaced by their notes
+  const condenseIfNeeded = async (
+    provider: BriefingProvider,
+    toCondense: Article[],
+    plan: CondensePlan,
+    requestTime: number,
+    signal: AbortSignal
+  ) => {
+    const isCurrent = () => lastGenRequestRef.current === requestTime;
+    const condense = async (text: string, targetWords: number) => {
+      const key = await hashKey('condense', provider.id, provider.models.summary, targetWords, text);
+      const cached = await contentCache.get<string>(key).catch(() => undefined);
+      if (cached) return cached;
+
+      const notes = await withRetry(retrySignal => provider.condense(text, targetWords, retrySignal), {
+        signal,
+        onRetry: (attempt, delayMs) => {
+          if (isCurrent()) setGenerationState(prev => ({ ...prev, retry: { attempt, delayMs } }));
+        },
+      });
+      contentCache.put('notes', key, notes).catch(error => {
+        console.warn('Failed to cache notes:', error);
+      });
+      return notes;
+    };
+
+    let progress: ArticleProgress[] = [];
+    const condensed = await condenseArticles(toCondense, plan, condense, {
+      onProgress: next => {
+        progress = next;
+        if (isCurrent()) setGenerationState({ status: 'summarizing', summaryProgress: { articles: next, composing: false } });
+      },
+    });
+    if (isCurrent()) setGenerationState({ status: 'summarizing', summaryProgress: { articles: progress, composing: true } });
+    return condensed;
+  };
+
+  // `scheduled` marks unattended runs from the scheduler
+  const handleGenerate = useCallback(async ({ scheduled = false }: { scheduled?: boolean } = {}) => {
     if (articles.length === 0) return;
     if (!audioContextRef.current) return;
 
+    let provider: BriefingProvider;
+    try {
+      provider = createProvider(providerSettings, { onUsage: usage => recordUsage(providerSettings.providerId, usage) });
+    } catch (error: any) {
+      setGenerationState({ status: 'error', error: errorMessage(error) });
+      return;
+    }
+
+    // Degrade to a monologue when the provider can't voice two hosts
+    const options: BriefingOptions = briefingOptions.mode === 'dialogue' && !provider.supportsMultiSpeaker
+      ? { ...briefingOptions, mode: 'monologue' }
+      : briefingOptions;
+
+    // Before anything is reset, so a refused generation keeps the current briefing
+    const plan = planCondensing(articles);
+    if (!confirmWithinBudget(estimateGenerationCost(provider.models, estimatePromptChars(articles, plan), options), { scheduled })) return;
+
     const currentRequestTime = Date.now();
     lastGenRequestRef.current = currentRequestTime;
 
-    // Reset previous state
+    // Reset previous state (the previous briefing stays in history)
     setSummaryText(null);
-    setAudioBuffer(null);
+    setAudioBuffers([]);
+    setScriptChunks([]);
+    setScriptClaims([]);
+    setChapterPlan([]);
+    setActiveBriefingId(null);
+    setUpdateBase(null);
+    setReviewDraft(null);
+    pendingSynthesisRef.current = null;
     setGenerationState({ status: 'summarizing' });
 
     try {
-      // 1. Summarize
-      const contentList = articles.map(a => `Título: ${a.title}\nConteúdo: ${a.content}`);
-      const summary = await summarizeArticles(contentList);
-      
+      // 1. Summarize, condensing long articles first
+      const { signal } = startRequest();
+      const prepared = await condenseIfNeeded(provider, articles, plan, currentRequestTime, signal);
       if (lastGenRequestRef.current !== currentRequestTime) return; // Stale
-      setSummaryText(summary);
-
-      // 2. Generate Audio
-      setGenerationState({ status: 'generating_audio' });
-      const buffer = await generateSpeech(summary, selectedVoice, audioContextRef.current);
+      // Sources reporting the same story are told as one
+      const storyGroups = storyGroupIndices(articles, analyzeQueue(articles).groups);
+      const summary = await summarizeCached(provider, prepared.map(formatArticle), options, currentRequestTime, signal, { storyGroups });
       
       if (lastGenRequestRef.current !== currentRequestTime) return; // Stale
-      setAudioBuffer(buffer);
-      setGenerationState({ status: 'ready' });
+
+      // 2. Generate Audio, chunk by chunk (after review, if enabled). One
+      // section per article; a script without markers is a single chapter.
+      const { sections, cited } = extractSourceTags(parseSections(summary, articles.length), articles.length);
+      await continueWithDraft({
+        requestTime: currentRequestTime,
+        provider,
+        sections,
+        cited,
+        options,
+        articles,
+        voice: selectedVoice,
+        coHostVoice,
+      }, { scheduled });
 
     } catch (error: any) {
       if (lastGenRequestRef.current !== currentRequestTime) return; // Stale
+      if (isCancelled(error)) {
+        setGenerationState({ status: 'idle' });
+        return;
+      }
       console.error('Generation Error:', error);
       
       setGenerationState({ 
         status: 'error', 
-        error: getFriendlyErrorMessage(error)
+        error: errorMessage(error)
+      });
+    }
+  }, [articles, selectedVoice, coHostVoice, providerSettings, briefingOptions, continueWithDraft]);
+
+  // Appends a short segment covering only the queued articles the active
+  // briefing doesn't have yet. Its audio keeps playing meanwhile.
+  const handleUpdate = useCallback(async () => {
+    const base = briefings.find(b => b.id === activeBriefingId);
+    if (!base || !audioContextRef.current) return;
+    const newArticles = articlesMissingFrom(base, articles);
+    if (newArticles.length === 0) return;
+
+    let provider: BriefingProvider;
+    try {
+      provider = createProvider(providerSettings, { onUsage: usage => recordUsage(providerSettings.providerId, usage) });
+    } catch (error: any) {
+      setGenerationState({ status: 'error', error: errorMessage(error) });
+      return;
+    }
+
+    // Same style and voices as the briefing it continues, at a length
+    // proportional to the share of new stories
+    const baseOptions = updateOptions(base.options ?? briefingOptions, newArticles.length, base.articleIds.length + newArticles.length);
+    const options: BriefingOptions = baseOptions.mode === 'dialogue' && !provider.supportsMultiSpeaker
+      ? { ...baseOptions, mode: 'monologue' }
+      : baseOptions;
+    const plan = planCondensing(newArticles);
+    if (!confirmWithinBudget(estimateGenerationCost(provider.models, estimatePromptChars(newArticles, plan), options))) return;
+
+    const currentRequestTime = Date.now();
+    lastGenRequestRef.current = currentRequestTime;
+    const isStale = () => lastGenRequestRef.current !== currentRequestTime;
+    const { signal } = startRequest();
+    const bufferCount = audioBuffers.length;
+
+    try {
+      const audio = await storage.loadBriefingAudio(base.id);
+      if (isStale()) return;
+      if (!audio) throw new Error('Áudio do briefing não encontrado.');
+      if (audio.sampleRate !== provider.sampleRate) {
+        throw new Error('Este briefing foi gravado com outro provedor. Gere um novo do zero.');
+      }
+
+      const nextBase: UpdateBase = { briefing: base, pcm: audio.pcm, bufferCount };
+      pendingSynthesisRef.current = null;
+      setReviewDraft(null);
+      setUpdateBase(nextBase);
+      setActiveBriefingId(null);
+      setGenerationState({ status: 'summarizing' });
+
+      const prepared = await condenseIfNeeded(provider, newArticles, plan, currentRequestTime, signal);
+      if (isStale()) return;
+      const summary = await summarizeCached(provider, prepared.map(formatArticle), options, currentRequestTime, signal, {
+        coveredTitles: base.articleTitles,
+        storyGroups: storyGroupIndices(newArticles, analyzeQueue(newArticles).groups),
+      });
+      if (isStale()) return;
+      const { sections, cited } = extractSourceTags(parseSections(summary, newArticles.length), newArticles.length);
+      await continueWithDraft({
+        requestTime: currentRequestTime,
+        provider,
+        sections,
+        cited,
+        options,
+        articles: newArticles,
+        voice: base.voice,
+        coHostVoice: base.coHostVoice,
+        base: nextBase,
       });
+
+    } catch (error: any) {
+      if (isStale()) return;
+      // Nothing was appended yet: go back to the briefing as it was
+      setUpdateBase(null);
+      setActiveBriefingId(base.id);
+      setSummaryText(base.script);
+      if (isCancelled(error)) {
+        setGenerationState({ status: 'ready' });
+        return;
+      }
+      console.error('Update Error:', error);
+      setGenerationState({ status: 'error', error: errorMessage(error) });
     }
-  }, [articles, selectedVoice]);
+  }, [articles, briefings, activeBriefingId, audioBuffers.length, providerSettings, briefingOptions, continueWithDraft]);
 
-  // Effect: Auto-generate when articles change or toggle is enabled
+  // The scheduler outlives renders, so it calls the latest handleGenerate
+  const handleGenerateRef = useRef(handleGenerate);
+  handleGenerateRef.current = handleGenerate;
+
+  // Effect: Prepare the briefing from the saved queue at the scheduled time
   useEffect(() => {
-    if (autoGenerate && articles.length > 0) {
-      const timer = setTimeout(() => {
-        handleGenerate();
-      }, 1500); // 1.5s debounce to allow for multiple rapid changes
-      return () => clearTimeout(timer);
+    if (!isHydrated) return;
+    return startScheduler(schedule, {
+      lastRunAt: scheduleLastRunRef.current,
+      onDue: runAt => {
+        recordScheduledRun(runAt);
+        handleGenerateRef.current({ scheduled: true });
+      },
+    });
+  }, [schedule, isHydrated]);
+
+  // The reviewed script goes on to synthesis exactly as edited
+  const handleApproveScript = (sections: ScriptSection[]) => {
+    const draft = reviewDraft;
+    if (!draft || lastGenRequestRef.current !== draft.requestTime) return;
+    setReviewDraft(null);
+    voiceDraft({ ...draft, sections });
+  };
+
+  const handleDiscardScript = () => {
+    const draft = reviewDraft;
+    if (!draft) return;
+    lastGenRequestRef.current = Date.now();
+    abortControllerRef.current?.abort();
+    setReviewDraft(null);
+    if (draft.base) {
+      // Back to the briefing the update was for
+      setUpdateBase(null);
+      setActiveBriefingId(draft.base.briefing.id);
+      setSummaryText(draft.base.briefing.script);
+      setGenerationState({ status: 'ready' });
+    } else {
+      setGenerationState({ status: 'idle' });
     }
-  }, [articles, autoGenerate, handleGenerate]);
+  };
 
-  // Effect: Clear state when list becomes empty
+  const handleRewriteParagraph = async (paragraph: string, script: string) => {
+    const draft = reviewDraft;
+    if (!draft) return paragraph;
+    const { signal } = startRequest();
+    try {
+      return await withRetry(retrySignal => draft.provider.rewrite(paragraph, script, draft.options, retrySignal), { signal });
+    } catch (error) {
+      throw new Error(errorMessage(error));
+    }
+  };
+
+  // Re-synthesizes only the chunks that failed, keeping everything else
+  const handleRetryFailedChunks = () => {
+    const pending = pendingSynthesisRef.current;
+    const failed = generationState.audioProgress?.failed;
+    if (!pending || !failed?.length) return;
+    if (!confirmWithinBudget(estimateSynthesisCost(pending.provider.models.tts, failed.map(i => pending.chunks[i])))) return;
+    synthesizePending(pending, failed);
+  };
+
+  // Voices the already generated script again from scratch, with the
+  // currently selected voices, without another summarize call
+  const handleRetryAudio = () => {
+    const previous = pendingSynthesisRef.current;
+    if (!previous) return;
+    if (!confirmWithinBudget(estimateSynthesisCost(previous.provider.models.tts, previous.chunks))) return;
+    const requestTime = Date.now();
+    lastGenRequestRef.current = requestTime;
+    const pending: PendingSynthesis = {
+      ...previous,
+      requestTime,
+      voice: selectedVoice,
+      speakers: previous.speakers && [
+        { speaker: DIALOGUE_HOSTS[0], voice: selectedVoice },
+        { speaker: DIALOGUE_HOSTS[1], voice: coHostVoice },
+      ],
+      pcm: previous.chunks.map(() => null),
+    };
+    pendingSynthesisRef.current = pending;
+    setAudioBuffers(prev => [...prev.slice(0, pending.base?.bufferCount ?? 0), ...pending.chunks.map(() => null)]);
+    setPlayerKey(String(requestTime));
+    synthesizePending(pending);
+  };
+
+  // Effect: Clear state when list becomes empty. While the removal can
+  // still be undone, the briefing, player and review stay as they were.
+  const canUndoRemoval = undoRemoval !== null;
   useEffect(() => {
+    if (!isHydrated || canUndoRemoval) return;
     if (articles.length === 0) {
-      setAudioBuffer(null);
+      setAudioBuffers([]);
+      setScriptChunks([]);
+      setScriptClaims([]);
+      setChapterPlan([]);
       setSummaryText(null);
+      setActiveBriefingId(null);
+      setUpdateBase(null);
+      setReviewDraft(null);
+      pendingSynthesisRef.current = null;
       setGenerationState({ status: 'idle' });
+      storage.clearActiveBriefing().catch(error => {
+        console.warn('Failed to clear saved briefing:', error);
+      });
     }
-  }, [articles.length]);
+  }, [articles.length, isHydrated, canUndoRemoval]);
+
+  const handleSelectBriefing = async (id: string) => {
+    const briefing = briefings.find(b => b.id === id);
+    if (!briefing || !audioContextRef.current) return;
+
+    // Invalidate any in-flight generation so it doesn't overwrite the replay
+    lastGenRequestRef.current = Date.now();
+    abortControllerRef.current?.abort();
+
+    try {
+      const audio = await storage.loadBriefingAudio(id);
+      if (!audio) throw new Error('Áudio do briefing não encontrado.');
+      const buffer = await decodeAudioData(audio.pcm, audioContextRef.current, audio.sampleRate, 1);
+      pendingSynthesisRef.current = null;
+      setUpdateBase(null);
+      setReviewDraft(null);
+      setActiveBriefingId(id);
+      setPlayerKey(id);
+      setSummaryText(briefing.script);
+      setAudioBuffers([buffer]);
+      setGenerationState({ status: 'ready' });
+      await storage.setActiveBriefingId(id);
+    } catch (error: any) {
+      console.error('Replay Error:', error);
+      setGenerationState({ status: 'error', error: errorMessage(error) });
+    }
+  };
+
+  const handleRenameBriefing = async (id: string, title: string) => {
+    setBriefings(prev => prev.map(b => (b.id === id ? { ...b, title } : b)));
+    try {
+      await storage.renameBriefing(id, title);
+    } catch (error) {
+      console.warn('Failed to rename briefing:', error);
+    }
+  };
+
+  const handleDeleteBriefing = async (id: string) => {
+    if (!window.confirm("Tem certeza que deseja excluir este briefing?")) return;
+
+    setBriefings(prev => prev.filter(b => b.id !== id));
+    if (id === updateBase?.briefing.id) {
+      // Drop the update in progress along with its briefing
+      lastGenRequestRef.current = Date.now();
+      abortControllerRef.current?.abort();
+      pendingSynthesisRef.current = null;
+      setUpdateBase(null);
+    }
+    if (id === activeBriefingId || id === updateBase?.briefing.id) {
+      setActiveBriefingId(null);
+      setAudioBuffers([]);
+      setScriptChunks([]);
+      setScriptClaims([]);
+      setChapterPlan([]);
+      setSummaryText(null);
+      setGenerationState({ status: 'idle' });
+    }
+    try {
+      await storage.deleteBriefing(id);
+    } catch (error) {
+      console.warn('Failed to delete briefing:', error);
+    }
+  };
+
+  const activeBriefing = briefings.find(b => b.id === activeBriefingId);
+  const queueAnalysis = useMemo(() => analyzeQueue(articles), [articles]);
+  // Briefing on screen, including one that is being updated
+  const shownBriefing = activeBriefing ?? updateBase?.briefing;
+
+  // Queued articles the active briefing doesn't cover; when it covers some
+  // of the queue already, they can be appended as an update
+  const newArticles = useMemo(
+    () => (activeBriefing ? articlesMissingFrom(activeBriefing, articles) : []),
+    [activeBriefing, articles]
+  );
+  const canUpdate = newArticles.length > 0 && newArticles.length < articles.length;
+
+  // Only what the summarizer sees matters here, not bookkeeping such as
+  // briefedAt or tags
+  const queueSignature = articles.length > 0 ? articles.map(formatArticle).join('\u0000') : '';
+  const autoRunRef = useRef(handleGenerate);
+  autoRunRef.current = canUpdate ? handleUpdate : handleGenerate;
+
+  // Effect: Auto-generate (or update) when articles change or toggle is enabled
+  useEffect(() => {
+    if (autoGenerate && queueSignature) {
+      const timer = setTimeout(() => {
+        autoRunRef.current();
+      }, 1500); // 1.5s debounce to allow for multiple rapid changes
+      return () => clearTimeout(timer);
+    }
+  }, [queueSignature, autoGenerate, selectedVoice, coHostVoice, providerSettings, briefingOptions]);
+
+  // The Player can only play chunks in order, so hand it the ready prefix
+  const playableBuffers = useMemo(() => {
+    const firstMissing = audioBuffers.indexOf(null);
+    return (firstMissing === -1 ? audioBuffers : audioBuffers.slice(0, firstMissing)) as AudioBuffer[];
+  }, [audioBuffers]);
+
+  // Saved briefings carry their timing map; while generating, derive it from
+  // the chunks synthesized so far
+  const segments = useMemo(() => {
+    if (activeBriefing) {
+      return briefingSegments(activeBriefing);
+    }
+    const live = annotateSegments(buildSegments(scriptChunks, playableBuffers.slice(updateBase?.bufferCount ?? 0).map(b => b.duration)), scriptClaims);
+    return updateBase
+      ? [...briefingSegments(updateBase.briefing), ...shiftSegments(live, updateBase.briefing.duration)]
+      : live;
+  }, [activeBriefing, updateBase, scriptChunks, scriptClaims, playableBuffers]);
+
+  const chapters = useMemo(() => {
+    if (activeBriefing) return activeBriefing.chapters ?? [];
+    const live = timeChapters(chapterPlan, playableBuffers.slice(updateBase?.bufferCount ?? 0).map(b => b.duration));
+    return updateBase
+      ? [...(updateBase.briefing.chapters ?? []), ...shiftChapters(live, updateBase.briefing.duration)]
+      : live;
+  }, [activeBriefing, updateBase, chapterPlan, playableBuffers]);
+
+  // Music is mixed over the finished briefing; while chunks stream in, the
+  // speech plays alone. The Player picks up the mix where it is.
+  useEffect(() => {
+    const ctx = audioContextRef.current;
+    if (!ctx || !music.enabled || !activeBriefing || generationState.status !== 'ready' || playableBuffers.length === 0) return;
+    const { id, duration } = activeBriefing;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const bundled = await bundledSounds(ctx.sampleRate);
+        const mix = await mixBriefing(concatAudioBuffers(ctx, playableBuffers), { ...bundled, ...customSounds }, music);
+        if (!cancelled) setMixedAudio({ ...mix, briefingId: id, duration });
+      } catch (error) {
+        console.warn('Failed to mix music:', error);
+      }
+    }, MIX_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [music, customSounds, activeBriefing?.id, activeBriefing?.duration, generationState.status, playableBuffers]);
+
+  const shownMix = music.enabled && activeBriefing && mixedAudio?.briefingId === activeBriefing.id && mixedAudio.duration === activeBriefing.duration
+    ? mixedAudio
+    : null;
+  // With music, the speech starts after the intro
+  const playerAudio = useMemo(() => (shownMix
+    ? {
+        buffers: [shownMix.buffer],
+        segments: shiftSegments(segments, shownMix.speechOffset),
+        chapters: shiftChapters(chapters, shownMix.speechOffset),
+      }
+    : { buffers: playableBuffers, segments, chapters }), [shownMix, playableBuffers, segments, chapters]);
+
+  // Titles for the transcript's source attributions; queued articles cover
+  // a briefing still being generated
+  const sourceTitles = useMemo(() => {
+    const titles: Record<string, string> = {};
+    articles.forEach(a => { titles[a.id] = a.title; });
+    shownBriefing?.articleIds.forEach((id, i) => { titles[id] = shownBriefing.articleTitles[i]; });
+    return titles;
+  }, [articles, shownBriefing]);
+
+  const audioProgress = generationState.audioProgress;
+  const reviewIsDialogue = Boolean(reviewDraft && reviewDraft.options.mode === 'dialogue' && isDialogue(sectionsToScript(reviewDraft.sections)));
+  const reviewSections = useMemo(
+    () => reviewDraft && toReviewSections(reviewDraft.sections, reviewDraft.articles, reviewIsDialogue, reviewDraft.base ? UPDATE_CHAPTER_TITLE : OPENING_CHAPTER_TITLE),
+    [reviewDraft, reviewIsDialogue]
+  );
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 pb-20">
@@ -187,11 +1240,62 @@ function App() {
                 <option key={voice} value={voice}>Voz {voice}</option>
               ))}
             </select>
+
+            {briefingOptions.mode === 'dialogue' && (
+              <select 
+                value={coHostVoice}
+                onChange={(e) => setCoHostVoice(e.target.value as TTSVoice)}
+                className="text-xs font-medium bg-slate-100 border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                title={`Voz de ${DIALOGUE_HOSTS[1]}`}
+              >
+                {Object.values(TTSVoice).map(voice => (
+                  <option key={voice} value={voice}>{DIALOGUE_HOSTS[1]}: {voice}</option>
+                ))}
+              </select>
+            )}
+
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className={`p-1.5 rounded-lg transition-colors ${showSettings ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'}`}
+              title="Configurações"
+              aria-label="Configurações"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
           </div>
         </div>
       </header>
 
       <main className="max-w-3xl mx-auto px-4 py-8 space-y-8">
+
+        {showSettings && (
+          <>
+            <SettingsPanel
+              providerSettings={providerSettings}
+              onProviderSettingsChange={handleProviderSettingsChange}
+            />
+            <PronunciationPanel
+              settings={pronunciation}
+              onChange={handlePronunciationChange}
+              language={briefingOptions.language}
+            />
+            <MusicPanel
+              settings={music}
+              onChange={handleMusicChange}
+              onUpload={handleMusicUpload}
+              onReset={handleMusicReset}
+            />
+            <SchedulePanel schedule={schedule} onChange={handleScheduleChange} />
+            <UsagePanel
+              records={usageLog}
+              budget={budget}
+              onBudgetChange={handleBudgetChange}
+              onClear={handleClearUsage}
+              cacheStats={cacheStats}
+              onClearCache={handleClearCache}
+            />
+          </>
+        )}
         
         {/* Input Section */}
         <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
@@ -231,6 +1335,14 @@ function App() {
               </button>
             </div>
           </div>
+
+          <div className="flex items-center gap-3 my-5 text-[10px] font-semibold text-slate-400 uppercase tracking-wider">
+            <div className="h-px flex-grow bg-slate-100"></div>
+            ou importe
+            <div className="h-px flex-grow bg-slate-100"></div>
+          </div>
+
+          <ImportPanel proxy={fetchProxy} onProxyChange={handleProxyChange} onImport={handleImportArticles} />
         </section>
 
         {/* Article List Section */}
@@ -249,17 +1361,59 @@ function App() {
               </button>
             )}
           </div>
-          <ArticleList articles={articles} onRemove={handleRemoveArticle} />
+          <ArticleList
+            articles={articles}
+            maxChars={MAX_CHARS}
+            onRemove={handleRemoveArticle}
+            onUpdate={handleUpdateArticle}
+            onMove={handleMoveArticle}
+            analysis={queueAnalysis}
+            onMergeDuplicate={handleMergeDuplicate}
+            onDismissDuplicate={handleDismissDuplicate}
+          />
         </section>
 
+        {articles.length > 0 && (
+          <BriefingOptionsPanel
+            options={briefingOptions}
+            onChange={handleBriefingOptionsChange}
+            presets={[...BUILT_IN_PRESETS, ...customPresets]}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
+          />
+        )}
+
         {/* Action Area */}
         {articles.length > 0 && (
           <div className="sticky bottom-6 z-40">
             <div className="absolute inset-0 bg-gradient-to-t from-slate-50 via-slate-50 to-transparent -top-12 pointer-events-none"></div>
             
             {(generationState.status === 'idle' || generationState.status === 'error' || generationState.status === 'ready') && (
+              <label className="relative flex items-center justify-end gap-2 mb-2 text-xs font-medium text-slate-500 cursor-pointer select-none" title="Pausa depois do resumo para editar o roteiro antes de gerar o áudio">
+                <input
+                  type="checkbox"
+                  checked={reviewScript}
+                  onChange={e => handleReviewScriptChange(e.target.checked)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500/20"
+                />
+                Revisar roteiro antes de gravar
+              </label>
+            )}
+
+            {canUpdate && !autoGenerate && (generationState.status === 'error' || generationState.status === 'ready') && (
               <button
-                onClick={handleGenerate}
+                onClick={handleUpdate}
+                className="relative w-full mb-3 py-3 rounded-2xl bg-white border border-indigo-100 text-indigo-700 font-semibold flex items-center justify-center gap-2 shadow-sm hover:bg-indigo-50 transition-all active:scale-[0.99]"
+                title="Acrescenta ao briefing atual um trecho só com os artigos novos"
+              >
+                <ListPlus className="w-5 h-5" />
+                Atualizar com {newArticles.length} {newArticles.length === 1 ? 'novidade' : 'novidades'}
+              </button>
+            )}
+
+            {(generationState.status === 'idle' || generationState.status === 'error' || generationState.status === 'ready') && (
+              <button
+                onClick={() => handleGenerate()}
                 disabled={autoGenerate || generationState.status === 'summarizing' || generationState.status === 'generating_audio'}
                 className={`w-full py-4 rounded-2xl shadow-xl font-bold text-lg flex items-center justify-center gap-3 transition-all transform hover:-translate-y-1 active:scale-[0.99]
                   ${autoGenerate 
@@ -274,7 +1428,7 @@ function App() {
                 ) : (
                   <>
                     <Sparkles className="w-6 h-6 fill-indigo-400" />
-                    Gerar Briefing de Áudio
+                    {canUpdate ? 'Gerar do Zero' : 'Gerar Briefing de Áudio'}
                   </>
                 )}
               </button>
@@ -287,14 +1441,47 @@ function App() {
                 <div className="flex-1">
                   <p className="font-semibold mb-0.5">Falha na Geração</p>
                   <p className="opacity-90">{generationState.error}</p>
+                  {audioProgress && audioProgress.failed.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+                      <button
+                        onClick={handleRetryFailedChunks}
+                        className="flex items-center gap-1.5 text-xs font-semibold text-red-700 hover:text-red-800 underline-offset-2 hover:underline"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                        Tentar novamente {audioProgress.failed.length} de {audioProgress.total} trechos
+                      </button>
+                      <button
+                        onClick={handleRetryAudio}
+                        className="flex items-center gap-1.5 text-xs font-semibold text-red-700 hover:text-red-800 underline-offset-2 hover:underline"
+                        title="Sintetiza de novo todo o roteiro já gerado, com as vozes selecionadas"
+                      >
+                        <Mic className="w-3.5 h-3.5" />
+                        Refazer só o áudio
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
           </div>
         )}
 
-        {/* Loading / Progress State */}
-        {(generationState.status === 'summarizing' || generationState.status === 'generating_audio') && (
+        {/* Script Review (pipeline paused before synthesis) */}
+        {generationState.status === 'reviewing' && reviewDraft && reviewSections && (
+          <ScriptReview
+            key={reviewDraft.requestTime}
+            sections={reviewSections}
+            dialogue={reviewIsDialogue}
+            targetMinutes={reviewDraft.options.targetMinutes}
+            isUpdate={Boolean(reviewDraft.base)}
+            onRewrite={handleRewriteParagraph}
+            onApprove={handleApproveScript}
+            onDiscard={handleDiscardScript}
+          />
+        )}
+
+        {/* Loading / Progress State (only blocks until the first chunk is playable) */}
+        {!updateBase && (generationState.status === 'summarizing' || (generationState.status === 'generating_audio' && playableBuffers.length === 0)) && (
           <div className="fixed inset-0 z-50 bg-white/80 backdrop-blur-sm flex items-center justify-center">
             <div className="bg-white p-8 rounded-3xl shadow-2xl border border-slate-100 text-center max-w-sm w-full mx-4">
               <div className="relative w-16 h-16 mx-auto mb-6">
@@ -304,27 +1491,97 @@ function App() {
               <h3 className="text-xl font-bold text-slate-800 mb-2">
                 {generationState.status === 'summarizing' ? 'Lendo Artigos...' : 'Gravando Áudio...'}
               </h3>
-              <p className="text-slate-500 text-sm">
-                {generationState.status === 'summarizing' 
-                  ? 'A IA está analisando e resumindo suas notícias.' 
-                  : 'Sintetizando sua fala personalizada.'}
-              </p>
+              {generationState.status === 'summarizing' && generationState.summaryProgress ? (
+                <SummaryProgress {...generationState.summaryProgress} />
+              ) : (
+                <p className="text-slate-500 text-sm">
+                  {generationState.status === 'summarizing' 
+                    ? 'A IA está analisando e resumindo suas notícias.' 
+                    : 'Sintetizando sua fala personalizada.'}
+                </p>
+              )}
+              {generationState.retry && (
+                <p className="mt-2 text-amber-600 text-xs font-medium">
+                  Serviço instável: tentativa {generationState.retry.attempt + 1} em {Math.ceil(generationState.retry.delayMs / 1000)}s...
+                </p>
+              )}
+              <button
+                onClick={handleCancelGeneration}
+                className="mt-6 px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                Cancelar
+              </button>
             </div>
           </div>
         )}
 
         {/* Audio Player Result */}
-        {generationState.status === 'ready' && audioBuffer && audioContextRef.current && (
-          <section className="animate-in fade-in slide-in-from-bottom-8 duration-500">
+        {playableBuffers.length > 0 && audioContextRef.current && (
+          <section className="animate-in fade-in slide-in-from-bottom-8 duration-500 space-y-3">
+            {((generationState.status === 'generating_audio' && audioProgress) || (generationState.status === 'summarizing' && updateBase)) && (
+              <div className="flex items-center gap-3 px-4 py-3 bg-indigo-50 text-indigo-700 rounded-xl text-xs font-semibold">
+                <div className="w-4 h-4 border-2 border-indigo-600 rounded-full border-t-transparent animate-spin" />
+                {audioProgress
+                  ? <>Gravando {updateBase ? 'Novidades' : 'Áudio'}... {audioProgress.ready} de {audioProgress.total} trechos prontos</>
+                  : 'Lendo Novidades...'}
+                {generationState.retry && (
+                  <span className="text-amber-600">(tentativa {generationState.retry.attempt + 1})</span>
+                )}
+                <button
+                  onClick={handleCancelGeneration}
+                  className="ml-auto text-indigo-500 hover:text-indigo-800 underline-offset-2 hover:underline"
+                >
+                  Cancelar
+                </button>
+              </div>
+            )}
             <Player 
-              audioBuffer={audioBuffer} 
+              key={playerKey}
+              audioBuffers={playerAudio.buffers}
+              isComplete={generationState.status === 'ready'}
               audioContext={audioContextRef.current}
               transcript={summaryText || undefined}
+              segments={playerAudio.segments}
+              speechOffset={shownMix?.speechOffset}
+              sourceTitles={sourceTitles}
+              chapters={playerAudio.chapters}
+              speed={playbackSpeed}
+              onSpeedChange={handlePlaybackSpeedChange}
+              level={playbackLevel}
+              onLevelChange={handlePlaybackLevelChange}
+              title={shownBriefing?.title}
+              createdAt={shownBriefing?.createdAt}
+            />
+          </section>
+        )}
+
+        {/* Past Briefings */}
+        {briefings.length > 0 && (
+          <section>
+            <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4 px-1 flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Briefings Anteriores ({briefings.length})
+            </h2>
+            <BriefingHistory
+              briefings={briefings}
+              activeId={activeBriefingId}
+              onSelect={handleSelectBriefing}
+              onRename={handleRenameBriefing}
+              onDelete={handleDeleteBriefing}
             />
           </section>
         )}
 
       </main>
+
+      {undoRemoval && (
+        <UndoToast
+          key={undoRemoval.id}
+          message={undoRemoval.message}
+          onUndo={handleUndoRemoval}
+          onDismiss={() => setUndoRemoval(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,13 +1,44 @@
-import React from 'react';
-import { Trash2, FileText, Clock } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Trash2, FileText, Clock, CheckCircle2, Pencil, Star, GripVertical, Check, X, Tag, Layers, Copy } from 'lucide-react';
 import { Article } from '../types';
+import { collectTags, hasTag, parseTags } from '../services/queueService';
+import { QueueAnalysis } from '../services/similarityService';
 
 interface ArticleListProps {
   articles: Article[];
+  maxChars: number;
   onRemove: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Article>) => void;
+  // `toIndex` is a position in the full queue, not in the filtered view
+  onMove: (id: string, toIndex: number) => void;
+  analysis: QueueAnalysis;
+  onMergeDuplicate: (id: string, originalId: string) => void;
+  onDismissDuplicate: (id: string, originalId: string) => void;
 }
 
-export const ArticleList: React.FC<ArticleListProps> = ({ articles, onRemove }) => {
+// Tells same-story groups apart at a glance
+const GROUP_COLORS = ['bg-sky-400', 'bg-violet-400', 'bg-emerald-400', 'bg-rose-400', 'bg-amber-400'];
+
+interface Draft {
+  title: string;
+  content: string;
+  tags: string;
+}
+
+const fieldClassName = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+export const ArticleList: React.FC<ArticleListProps> = ({ articles, maxChars, onRemove, onUpdate, onMove, analysis, onMergeDuplicate, onDismissDuplicate }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>({ title: '', content: '', tags: '' });
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const tags = useMemo(() => collectTags(articles), [articles]);
+  // A filter on a tag that no longer exists shows everything again
+  const activeFilter = tagFilter && tags.some(t => t.toLowerCase() === tagFilter.toLowerCase()) ? tagFilter : null;
+  const visible = activeFilter ? articles.filter(a => hasTag(a, activeFilter)) : articles;
+
   if (articles.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center p-8 text-slate-400 border-2 border-dashed border-slate-200 rounded-xl bg-slate-50/50">
@@ -18,39 +49,252 @@ export const ArticleList: React.FC<ArticleListProps> = ({ articles, onRemove })
     );
   }
 
+  const queueIndex = (id: string) => articles.findIndex(a => a.id === id);
+
+  const startEditing = (article: Article) => {
+    setEditingId(article.id);
+    setDraft({ title: article.title, content: article.content, tags: (article.tags ?? []).join(', ') });
+  };
+
+  const commitEdit = () => {
+    if (editingId && draft.content.trim()) {
+      onUpdate(editingId, {
+        title: draft.title.trim() || articles[queueIndex(editingId)]?.title,
+        content: draft.content.trim(),
+        tags: parseTags(draft.tags),
+      });
+    }
+    setEditingId(null);
+  };
+
+  // Arrow keys on the handle swap places with the neighbour in view
+  const handleReorderKey = (e: React.KeyboardEvent, visibleIndex: number, id: string) => {
+    const step = e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0;
+    const neighbour = visible[visibleIndex + step];
+    if (!step || !neighbour) return;
+    e.preventDefault();
+    onMove(id, queueIndex(neighbour.id));
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (draggedId && draggedId !== targetId) onMove(draggedId, queueIndex(targetId));
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
   return (
     <div className="space-y-3">
-      {articles.map((article) => (
-        <div 
-          key={article.id} 
-          className="group relative flex items-start p-4 bg-white rounded-xl shadow-sm border border-slate-100 transition-all hover:shadow-md hover:border-indigo-100"
-        >
-          <div className="flex-shrink-0 mr-3 mt-1">
-            <div className="w-8 h-8 rounded-full bg-indigo-50 flex items-center justify-center text-indigo-600">
-              <FileText className="w-4 h-4" />
-            </div>
-          </div>
-          <div className="flex-grow min-w-0">
-            <h3 className="text-sm font-semibold text-slate-800 mb-1 truncate pr-8">
-              {article.title}
-            </h3>
-            <p className="text-xs text-slate-500 line-clamp-2">
-              {article.content}
-            </p>
-            <div className="flex items-center mt-2 text-[10px] text-slate-400">
-              <Clock className="w-3 h-3 mr-1" />
-              {new Date(article.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Tag className="w-3.5 h-3.5 text-slate-400 mr-0.5" />
+          {[null, ...tags].map(tag => (
+            <button
+              key={tag ?? ''}
+              onClick={() => setTagFilter(tag)}
+              className={`px-2 py-0.5 rounded-full text-[11px] font-medium border transition-colors ${activeFilter === tag ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-200'}`}
+            >
+              {tag ?? 'Todos'}
+            </button>
+          ))}
+          {activeFilter && (
+            <span className="text-[11px] text-slate-400 ml-1">
+              Mostrando {visible.length} de {articles.length}
+            </span>
+          )}
+        </div>
+      )}
+
+      {analysis.groups.length > 0 && (
+        <p className="flex items-center gap-1.5 text-[11px] text-slate-400">
+          <Layers className="w-3.5 h-3.5" />
+          {analysis.groups.length === 1 ? '1 notícia aparece' : `${analysis.groups.length} notícias aparecem`} em mais de uma fonte; o briefing conta cada uma só uma vez.
+        </p>
+      )}
+
+      {visible.map((article, visibleIndex) => {
+        const isEditing = article.id === editingId;
+        const groupIndex = analysis.groups.findIndex(g => g.includes(article.id));
+        const group = analysis.groups[groupIndex];
+        const duplicate = analysis.duplicates.find(d => d.id === article.id);
+        const original = duplicate && articles.find(a => a.id === duplicate.originalId);
+
+        return (
+          <div
+            key={article.id}
+            draggable={!isEditing}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(article.id);
+            }}
+            onDragOver={(e) => {
+              if (!draggedId) return;
+              e.preventDefault();
+              setDropTargetId(article.id);
+            }}
+            onDragLeave={() => setDropTargetId(prev => (prev === article.id ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(article.id);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropTargetId(null);
+            }}
+            className={`group relative flex items-start p-4 bg-white rounded-xl shadow-sm border transition-all hover:shadow-md
+              ${article.priority ? 'border-amber-200' : 'border-slate-100 hover:border-indigo-100'}
+              ${dropTargetId === article.id && draggedId !== article.id ? 'ring-2 ring-indigo-400' : ''}
+              ${draggedId === article.id ? 'opacity-50' : ''}`}
+          >
+            {group && (
+              <span className={`absolute left-0 top-3 bottom-3 w-1 rounded-r ${GROUP_COLORS[groupIndex % GROUP_COLORS.length]}`} aria-hidden />
+            )}
+            <button
+              onKeyDown={(e) => handleReorderKey(e, visibleIndex, article.id)}
+              className="flex-shrink-0 -ml-2 mr-1 mt-2 p-0.5 text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing rounded focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+              aria-label={`Reordenar "${article.title}" (setas para cima e para baixo)`}
+              title="Arraste ou use as setas para reordenar"
+            >
+              <GripVertical className="w-4 h-4" />
+            </button>
+            <div className="flex-shrink-0 mr-3 mt-1">
+              <div className="w-8 h-8 rounded-full bg-indigo-50 flex items-center justify-center text-indigo-600">
+                <FileText className="w-4 h-4" />
+              </div>
             </div>
+
+            {isEditing ? (
+              <div className="flex-grow min-w-0 space-y-2">
+                <input
+                  autoFocus
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  placeholder="Título"
+                  className={fieldClassName}
+                />
+                <textarea
+                  value={draft.content}
+                  onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                  maxLength={maxChars}
+                  className={`${fieldClassName} h-28 resize-none`}
+                />
+                <input
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEdit();
+                  }}
+                  placeholder="Tags, separadas por vírgula"
+                  className={fieldClassName}
+                />
+                <div className="flex justify-end gap-1">
+                  <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-50 rounded-full" aria-label="Cancelar">
+                    <X className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={commitEdit}
+                    disabled={!draft.content.trim()}
+                    className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded-full disabled:opacity-50"
+                    aria-label="Salvar artigo"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex-grow min-w-0">
+                <h3 className="text-sm font-semibold text-slate-800 mb-1 truncate pr-24">
+                  {article.title}
+                </h3>
+                <p className="text-xs text-slate-500 line-clamp-2">
+                  {article.content}
+                </p>
+                <div className="flex flex-wrap items-center gap-y-1 mt-2 text-[10px] text-slate-400">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {new Date(article.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {article.briefedAt && (
+                    <span className="flex items-center ml-3 text-emerald-600" title={`Narrado em ${new Date(article.briefedAt).toLocaleString()}`}>
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                      Já narrado
+                    </span>
+                  )}
+                  {group && (
+                    <span
+                      className="flex items-center ml-3 text-slate-500"
+                      title={group.map(id => articles.find(a => a.id === id)?.title).join('\n')}
+                    >
+                      <Layers className="w-3 h-3 mr-1" />
+                      Mesma notícia em {group.length} fontes
+                    </span>
+                  )}
+                  {article.mergedFrom && article.mergedFrom.length > 0 && (
+                    <span className="ml-3" title={article.mergedFrom.map(s => s.title).join('\n')}>
+                      +{article.mergedFrom.length} {article.mergedFrom.length === 1 ? 'fonte mesclada' : 'fontes mescladas'}
+                    </span>
+                  )}
+                  {article.tags?.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setTagFilter(tag)}
+                      className="ml-2 px-1.5 py-px rounded bg-slate-100 text-slate-500 hover:bg-indigo-50 hover:text-indigo-600"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+                {original && (
+                  <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 px-2.5 py-1.5 bg-amber-50 text-amber-800 rounded-lg text-[11px]">
+                    <Copy className="w-3.5 h-3.5" />
+                    <span className="flex-1 min-w-0 truncate">
+                      Parece repetir "{original.title}" ({Math.round(duplicate!.score * 100)}% parecido)
+                    </span>
+                    <button
+                      onClick={() => onMergeDuplicate(article.id, original.id)}
+                      className="font-semibold hover:underline underline-offset-2"
+                      title="Junta o conteúdo a esse artigo e remove este da fila"
+                    >
+                      Mesclar
+                    </button>
+                    <button
+                      onClick={() => onDismissDuplicate(article.id, original.id)}
+                      className="text-amber-600 hover:underline underline-offset-2"
+                    >
+                      Não é duplicata
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!isEditing && (
+              <div className="absolute top-2 right-2 flex">
+                <button
+                  onClick={() => onUpdate(article.id, { priority: !article.priority })}
+                  className={`p-2 rounded-full transition-colors ${article.priority ? 'text-amber-500 hover:bg-amber-50' : 'text-slate-400 hover:text-amber-500 hover:bg-amber-50 opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                  aria-label={article.priority ? 'Remover prioridade' : 'Marcar como prioridade'}
+                  aria-pressed={Boolean(article.priority)}
+                  title="Prioridade: o briefing começa por esta notícia e se aprofunda nela"
+                >
+                  <Star className={`w-4 h-4 ${article.priority ? 'fill-current' : ''}`} />
+                </button>
+                <button
+                  onClick={() => startEditing(article)}
+                  className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  aria-label="Editar artigo"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onRemove(article.id)}
+                  className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  aria-label="Remover artigo"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
           </div>
-          <button
-            onClick={() => onRemove(article.id)}
-            className="absolute top-2 right-2 p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100"
-            aria-label="Remover artigo"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef } from 'react';
+
+export type VisualizerMode = 'spectrum' | 'waveform';
+
+interface AudioVisualizerProps {
+  // Tapped at the end of the player graph, so it shows what is heard
+  analyser: AnalyserNode | null;
+  active: boolean;
+  mode: VisualizerMode;
+  className?: string;
+}
+
+const BAR_COUNT = 40;
+const BAR_GAP = 3;
+// Speech energy sits well below the top of the spectrum
+const SPECTRUM_FRACTION = 0.5;
+
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, active, mode, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * ratio;
+      canvas.height = canvas.clientHeight * ratio;
+    };
+    resize();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!analyser || !active) return;
+
+    const frequencies = new Uint8Array(analyser.frequencyBinCount);
+    const samples = new Uint8Array(analyser.fftSize);
+    let frame = 0;
+
+    const drawSpectrum = () => {
+      analyser.getByteFrequencyData(frequencies);
+      const usable = Math.floor(frequencies.length * SPECTRUM_FRACTION);
+      const barWidth = (canvas.width - BAR_GAP * (BAR_COUNT - 1)) / BAR_COUNT;
+      // Bands widen towards the top so low frequencies get more bars, as
+      // heard; bin 0 (DC) is skipped
+      let from = 1;
+      for (let i = 0; i < BAR_COUNT; i++) {
+        const to = Math.min(usable, Math.max(from + 1, Math.floor(1 + (usable - 1) * Math.pow((i + 1) / BAR_COUNT, 2))));
+        let peak = 0;
+        for (let b = from; b < to; b++) peak = Math.max(peak, frequencies[b]);
+        const height = Math.max(2, (peak / 255) * canvas.height);
+        ctx.fillRect(i * (barWidth + BAR_GAP), (canvas.height - height) / 2, barWidth, height);
+        from = to;
+      }
+    };
+
+    const drawWaveform = () => {
+      analyser.getByteTimeDomainData(samples);
+      ctx.lineWidth = 2 * (window.devicePixelRatio || 1);
+      ctx.beginPath();
+      for (let i = 0; i < samples.length; i++) {
+        const x = (i / (samples.length - 1)) * canvas.width;
+        const y = (samples[i] / 255) * canvas.height;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    };
+
+    const draw = () => {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.fillStyle = ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      if (mode === 'spectrum') drawSpectrum();
+      else drawWaveform();
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    window.addEventListener('resize', resize);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('resize', resize);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [analyser, active, mode]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { History, Play, Pencil, Trash2, Check, X, Clock, Mic } from 'lucide-react';
+import { Briefing } from '../types';
+
+interface BriefingHistoryProps {
+  briefings: Briefing[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const BriefingHistory: React.FC<BriefingHistoryProps> = ({ briefings, activeId, onSelect, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  if (briefings.length === 0) return null;
+
+  const startEditing = (briefing: Briefing) => {
+    setEditingId(briefing.id);
+    setDraftTitle(briefing.title);
+  };
+
+  const commitEdit = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {briefings.map((briefing) => {
+        const isActive = briefing.id === activeId;
+        const isEditing = briefing.id === editingId;
+
+        return (
+          <div
+            key={briefing.id}
+            className={`group relative flex items-start p-4 bg-white rounded-xl shadow-sm border transition-all hover:shadow-md ${isActive ? 'border-indigo-300 ring-2 ring-indigo-500/10' : 'border-slate-100 hover:border-indigo-100'}`}
+          >
+            <button
+              onClick={() => onSelect(briefing.id)}
+              className={`flex-shrink-0 mr-3 mt-1 w-8 h-8 rounded-full flex items-center justify-center transition-colors ${isActive ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+              aria-label="Reproduzir briefing"
+            >
+              <Play className="w-4 h-4 fill-current ml-0.5" />
+            </button>
+
+            <div className="flex-grow min-w-0">
+              {isEditing ? (
+                <div className="flex items-center gap-1 mb-1">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-grow min-w-0 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  />
+                  <button onClick={commitEdit} className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded-full" aria-label="Salvar nome">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-50 rounded-full" aria-label="Cancelar">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <h3 className="text-sm font-semibold text-slate-800 mb-1 truncate pr-16">
+                  {briefing.title}
+                </h3>
+              )}
+              <p className="text-xs text-slate-500 line-clamp-2">
+                {[...new Set(briefing.articleTitles)].join(' · ')}
+              </p>
+              <div className="flex items-center gap-3 mt-2 text-[10px] text-slate-400">
+                <span className="flex items-center">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {new Date(briefing.createdAt).toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <span className="flex items-center">
+                  <Mic className="w-3 h-3 mr-1" />
+                  {briefing.voice}
+                </span>
+                <span className="flex items-center">
+                  <History className="w-3 h-3 mr-1" />
+                  {formatDuration(briefing.duration)}
+                </span>
+                {briefing.updatedAt && (
+                  <span title={new Date(briefing.updatedAt).toLocaleString()}>Atualizado</span>
+                )}
+              </div>
+            </div>
+
+            {!isEditing && (
+              <div className="absolute top-2 right-2 flex opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => startEditing(briefing)}
+                  className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+                  aria-label="Renomear briefing"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onDelete(briefing.id)}
+                  className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                  aria-label="Excluir briefing"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Save, Trash2 } from 'lucide-react';
+import { BriefingFormat, BriefingMode, BriefingOptions, BriefingPreset, BriefingTone } from '../types';
+import { BRIEFING_LANGUAGES } from '../services/promptService';
+
+interface BriefingOptionsPanelProps {
+  options: BriefingOptions;
+  onChange: (options: BriefingOptions) => void;
+  presets: BriefingPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const TONE_LABELS: Record<BriefingTone, string> = {
+  neutral: 'Neutro',
+  casual: 'Descontraído',
+  analytical: 'Analítico',
+};
+
+const FORMAT_LABELS: Record<BriefingFormat, string> = {
+  headlines: 'Só manchetes',
+  standard: 'Padrão',
+  deep_dive: 'Análise aprofundada',
+  qa: 'Perguntas e respostas',
+};
+
+const MODE_LABELS: Record<BriefingMode, string> = {
+  monologue: 'Apresentador único',
+  dialogue: 'Conversa entre dois apresentadores',
+};
+
+const selectClassName = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+const sameOptions = (a: BriefingOptions, b: BriefingOptions) =>
+  a.targetMinutes === b.targetMinutes && a.tone === b.tone && a.language === b.language && a.format === b.format && a.mode === b.mode;
+
+export const BriefingOptionsPanel: React.FC<BriefingOptionsPanelProps> = ({ options, onChange, presets, onSavePreset, onDeletePreset }) => {
+  const [presetName, setPresetName] = useState('');
+
+  const update = (patch: Partial<BriefingOptions>) => onChange({ ...options, ...patch });
+  const activePreset = presets.find(p => sameOptions(p.options, options));
+
+  const handleSave = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <details className="group bg-white rounded-2xl shadow-sm border border-slate-100">
+      <summary className="list-none flex items-center justify-between cursor-pointer px-5 py-4 select-none">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <SlidersHorizontal className="w-4 h-4 text-indigo-500" />
+          Formato do Briefing
+        </span>
+        <span className="text-xs text-slate-400">
+          {activePreset?.name ?? 'Personalizado'} · {options.targetMinutes} min
+        </span>
+      </summary>
+
+      <div className="px-5 pb-5 space-y-4">
+        {/* Presets */}
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <span
+              key={preset.id}
+              className={`flex items-center rounded-full border text-xs font-medium transition-colors ${preset === activePreset ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-slate-50 border-slate-200 text-slate-600 hover:border-indigo-200'}`}
+            >
+              <button onClick={() => onChange(preset.options)} className="px-3 py-1.5">
+                {preset.name}
+              </button>
+              {!preset.builtIn && (
+                <button
+                  onClick={() => onDeletePreset(preset.id)}
+                  className="pr-2 opacity-60 hover:opacity-100"
+                  aria-label={`Excluir preset ${preset.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="col-span-2 space-y-1">
+            <span className="flex justify-between text-xs font-medium text-slate-500">
+              Duração alvo
+              <span className="font-mono">{options.targetMinutes} min</span>
+            </span>
+            <input
+              type="range"
+              min="1"
+              max="20"
+              step="1"
+              value={options.targetMinutes}
+              onChange={(e) => update({ targetMinutes: Number(e.target.value) })}
+              className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs font-medium text-slate-500">Tom</span>
+            <select value={options.tone} onChange={(e) => update({ tone: e.target.value as BriefingTone })} className={selectClassName}>
+              {Object.entries(TONE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs font-medium text-slate-500">Idioma</span>
+            <select value={options.language} onChange={(e) => update({ language: e.target.value })} className={selectClassName}>
+              {BRIEFING_LANGUAGES.map(({ code, label }) => (
+                <option key={code} value={code}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs font-medium text-slate-500">Formato</span>
+            <select value={options.format} onChange={(e) => update({ format: e.target.value as BriefingFormat })} className={selectClassName}>
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs font-medium text-slate-500">Apresentação</span>
+            <select value={options.mode} onChange={(e) => update({ mode: e.target.value as BriefingMode })} className={selectClassName}>
+              {Object.entries(MODE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {!activePreset && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Nome do novo preset"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              className="flex-grow p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500/20 placeholder:text-slate-400"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!presetName.trim()}
+              className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 text-white rounded-lg text-xs font-medium hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              <Save className="w-3.5 h-3.5" />
+              Salvar preset
+            </button>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
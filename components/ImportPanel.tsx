@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import { Link, Upload, Settings, AlertCircle, Loader2 } from 'lucide-react';
+import { ImportedArticle, importFromUrl, importFiles, SUPPORTED_FILE_EXTENSIONS } from '../services/ingestionService';
+
+interface ImportPanelProps {
+  proxy: string;
+  onProxyChange: (proxy: string) => void;
+  onImport: (articles: ImportedArticle[]) => void;
+}
+
+export const ImportPanel: React.FC<ImportPanelProps> = ({ proxy, onProxyChange, onImport }) => {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Resolves to whether anything was imported
+  const runImport = async (load: () => Promise<ImportedArticle[]>): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const imported = (await load()).filter(a => a.content.trim());
+      if (imported.length === 0) {
+        throw new Error('Nenhum texto legível foi encontrado.');
+      }
+      onImport(imported);
+      return true;
+    } catch (err: any) {
+      console.error('Import Error:', err);
+      // fetch() rejects with a bare TypeError when CORS blocks the request
+      setError(err instanceof TypeError
+        ? 'Não foi possível acessar a URL. Configure um proxy abaixo.'
+        : err.message);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImportUrl = async () => {
+    if (!url.trim()) return;
+    // A failed URL stays in the field to be fixed or retried
+    if (await runImport(() => importFromUrl(url.trim(), proxy))) setUrl('');
+  };
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length > 0) runImport(() => importFiles(files));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-grow">
+          <Link className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="url"
+            placeholder="URL de artigo ou feed RSS/Atom"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleImportUrl()}
+            className="w-full pl-9 pr-3 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 transition-all placeholder:text-slate-400"
+          />
+        </div>
+        <button
+          onClick={handleImportUrl}
+          disabled={!url.trim() || isLoading}
+          className="flex items-center gap-2 px-5 py-2.5 bg-slate-900 text-white rounded-xl text-sm font-medium hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all active:scale-95"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Importar'}
+        </button>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        onClick={() => fileInputRef.current?.click()}
+        className={`flex flex-col items-center justify-center p-4 border-2 border-dashed rounded-xl cursor-pointer text-xs transition-colors ${isDragging ? 'border-indigo-400 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-400 hover:border-indigo-200 hover:text-slate-500'}`}
+      >
+        <Upload className="w-5 h-5 mb-1" />
+        <span>Arraste arquivos {SUPPORTED_FILE_EXTENSIONS.join(', ')} ou clique para escolher</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-xl flex items-start gap-2 border border-red-100 text-xs">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <details className="group">
+        <summary className="list-none flex items-center gap-1.5 cursor-pointer text-xs font-medium text-slate-400 hover:text-slate-600 select-none">
+          <Settings className="w-3.5 h-3.5" />
+          Proxy de busca
+        </summary>
+        <input
+          type="text"
+          placeholder="https://meu-proxy.exemplo/?url={url}"
+          value={proxy}
+          onChange={(e) => onProxyChange(e.target.value)}
+          className="mt-2 w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/20 placeholder:text-slate-400"
+        />
+        <p className="mt-1 text-[10px] text-slate-400">
+          Use {'{url}'} onde a URL deve ser inserida. Deixe vazio para buscar diretamente.
+        </p>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { Music, RotateCcw, Upload } from 'lucide-react';
+import { MusicSettings, MusicSoundKind } from '../types';
+import { MUSIC_SOUND_KINDS } from '../services/mixService';
+
+interface MusicPanelProps {
+  settings: MusicSettings;
+  onChange: (settings: MusicSettings) => void;
+  // Rejects with a user-facing message when the file can't be decoded
+  onUpload: (kind: MusicSoundKind, file: File) => Promise<void>;
+  // Back to the bundled sound
+  onReset: (kind: MusicSoundKind) => void;
+}
+
+const SOUND_LABELS: Record<MusicSoundKind, string> = {
+  intro: 'Abertura',
+  bed: 'Trilha de fundo',
+  outro: 'Encerramento',
+};
+
+interface LevelSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+const LevelSlider: React.FC<LevelSliderProps> = ({ label, value, min, max, onChange }) => (
+  <label className="flex items-center gap-3 text-xs font-medium text-slate-600">
+    <span className="w-32">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step="1"
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-grow h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+    />
+    <span className="w-14 text-right font-mono text-slate-500">{value} dB</span>
+  </label>
+);
+
+export const MusicPanel: React.FC<MusicPanelProps> = ({ settings, onChange, onUpload, onReset }) => {
+  const [uploading, setUploading] = useState<MusicSoundKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Which sound the file picker was opened for
+  const pickingRef = useRef<MusicSoundKind>('intro');
+
+  const update = (patch: Partial<MusicSettings>) => onChange({ ...settings, ...patch });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const kind = pickingRef.current;
+    setUploading(kind);
+    setError(null);
+    try {
+      await onUpload(kind, file);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+          <Music className="w-4 h-4" />
+          Trilha e Vinhetas
+        </h2>
+        <label className="flex items-center gap-2 cursor-pointer text-xs font-semibold text-slate-500">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-indigo-600"
+          />
+          Ativa
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <label className="flex items-center gap-2 cursor-pointer text-xs font-medium text-slate-600">
+            <input
+              type="checkbox"
+              checked={settings.jingles}
+              onChange={(e) => update({ jingles: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            Vinhetas de abertura e encerramento
+          </label>
+
+          <div className="space-y-2">
+            <LevelSlider label="Trilha" value={settings.bedLevel} min={-36} max={-10} onChange={bedLevel => update({ bedLevel })} />
+            {settings.jingles && (
+              <LevelSlider label="Vinhetas" value={settings.jingleLevel} min={-18} max={0} onChange={jingleLevel => update({ jingleLevel })} />
+            )}
+            <LevelSlider label="Redução sob a voz" value={settings.ducking} min={0} max={24} onChange={ducking => update({ ducking })} />
+          </div>
+
+          <div className="space-y-1.5">
+            {MUSIC_SOUND_KINDS.filter(kind => settings.jingles || kind === 'bed').map(kind => (
+              <div key={kind} className="flex items-center gap-2 text-xs">
+                <span className="w-32 font-medium text-slate-600">{SOUND_LABELS[kind]}</span>
+                <span className="flex-1 min-w-0 truncate text-slate-400" title={settings.custom[kind]}>
+                  {settings.custom[kind] ?? 'Padrão'}
+                </span>
+                <button
+                  onClick={() => {
+                    pickingRef.current = kind;
+                    fileInputRef.current?.click();
+                  }}
+                  disabled={uploading !== null}
+                  className="flex items-center gap-1.5 px-2 py-1 font-medium text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors disabled:opacity-40"
+                >
+                  <Upload className={`w-3.5 h-3.5 ${uploading === kind ? 'animate-pulse' : ''}`} />
+                  Enviar
+                </button>
+                {settings.custom[kind] && (
+                  <button
+                    onClick={() => onReset(kind)}
+                    className="p-1 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                    title="Voltar ao som padrão"
+                    aria-label={`Voltar ${SOUND_LABELS[kind].toLowerCase()} ao som padrão`}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <p className="text-[11px] text-slate-400">
+            A música é mixada quando o briefing fica pronto; durante a geração, a voz toca sozinha. Níveis relativos à voz.
+          </p>
+        </>
+      )}
+    </section>
+  );
+};
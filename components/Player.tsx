@@ -1,63 +1,429 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Play, Pause, RotateCcw, Volume2, ChevronDown, FileText, Sliders } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Play, Pause, RotateCcw, Volume2, VolumeX, AudioWaveform, ChevronDown, FileText, Sliders, Download, Gauge, SkipBack, SkipForward, ListOrdered } from 'lucide-react';
+import { Chapter, PlaybackLevelSettings, TranscriptSegment } from '../types';
+import { encodeWav, toSrt, briefingFileName, downloadBlob } from '../services/exportService';
+import { estimateSegments } from '../services/transcriptService';
+import { findSegmentIndex } from '../services/timingService';
+import { concatAudioBuffers, peakEnvelope } from '../services/audioUtils';
+import { DIALOGUE_HOSTS } from '../services/dialogueService';
+import { Stretcher, createStretcher, stretchPlan, timeStretchBuffer } from '../services/timeStretch';
+import { findChapterIndex } from '../services/chapterService';
+import { COMPRESSOR_SETTINGS, DEFAULT_PLAYBACK_LEVEL, TARGET_LUFS, integratedLoudness, measureBlocks, normalizationGain } from '../services/loudnessService';
+import { AudioVisualizer, VisualizerMode } from './AudioVisualizer';
+import { bindMediaSession, clearMediaSession, getMediaSession, shortcutFor, updateMediaMetadata, updatePositionState } from '../services/mediaSessionService';
 
 interface PlayerProps {
-  audioBuffer: AudioBuffer;
+  // Consecutive chunks of the briefing; may keep growing while synthesis runs
+  audioBuffers: AudioBuffer[];
+  // False while more chunks are still on their way
+  isComplete?: boolean;
   audioContext: AudioContext;
   transcript?: string;
+  // Sentence timing map for highlighting and click-to-seek
+  segments?: TranscriptSegment[];
+  // Where the briefing's speech starts in `audioBuffers` (after a music
+  // intro). When the parent swaps the audio for a version with a different
+  // offset, playback carries on from the same point of the speech.
+  speechOffset?: number;
+  // Article titles by id, for the sources shown on each sentence
+  sourceTitles?: Record<string, string>;
+  chapters?: Chapter[];
+  title?: string;
+  createdAt?: number;
+  // Playback speed (pitch preserved); owned by the parent so it survives
+  // switching briefings
+  speed?: number;
+  onSpeedChange?: (speed: number) => void;
+  // Volume and loudness normalization; also owned by the parent
+  level?: PlaybackLevelSettings;
+  onLevelChange?: (level: PlaybackLevelSettings) => void;
 }
 
-export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, transcript }) => {
+export const MIN_SPEED = 0.75;
+export const MAX_SPEED = 2.5;
+
+const SKIP_SECONDS = 15;
+// "Previous chapter" restarts the current one unless pressed right at its start
+const CHAPTER_RESTART_GRACE = 3;
+
+// Waveform overview in the seek bar
+const WAVEFORM_BARS = 120;
+const PEAK_BIN_SECONDS = 0.05;
+// Time constant for gain changes, so they never click
+const GAIN_SMOOTHING = 0.05;
+
+const totalDurationOf = (buffers: AudioBuffer[]) => buffers.reduce((sum, b) => sum + b.duration, 0);
+
+export const Player: React.FC<PlayerProps> = ({ audioBuffers, isComplete = true, audioContext, transcript, segments = [], speechOffset = 0, sourceTitles = {}, chapters = [], title, createdAt, speed = 1, onSpeedChange, level = DEFAULT_PLAYBACK_LEVEL, onLevelChange }) => {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [pitch, setPitch] = useState(0); // in cents
+  // Playing, but waiting for the next chunk to arrive
+  const [isBuffering, setIsBuffering] = useState(false);
+  const [position, setPosition] = useState(0); // seconds into the briefing
+  const [pitch, setPitch] = useState(0); // in cents, independent of speed
+  // Position under the pointer while dragging the progress bar
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('spectrum');
   
-  // Refs for audio handling
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const startTimeRef = useRef<number>(0);
+  // Refs for audio handling. Chunks are scheduled back to back on the
+  // context clock, so playback stays gapless across chunk boundaries.
+  // Positions are in original (1×) briefing seconds throughout; each chunk
+  // is time-stretched for the current speed/pitch before it's scheduled.
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const scheduledCountRef = useRef(0); // chunks scheduled in the current run
+  const scheduledEndRef = useRef(0); // briefing position where scheduled audio ends
+  const startTimeRef = useRef<number>(0); // context time when the run started
+  const startPositionRef = useRef<number>(0); // briefing position when the run started
+  const rateRef = useRef(1); // briefing seconds per context second (= speed)
+  const tempoRef = useRef(1); // time-stretch factor of the current run
+  // Stretched renders per source buffer, keyed by tempo
+  const stretchCacheRef = useRef(new WeakMap<AudioBuffer, Map<number, AudioBuffer>>());
+  const stretcherRef = useRef<Stretcher | null>(null);
+  // Bumped by every playFrom, so a render finishing late can't restart an old run
+  const runRef = useRef(0);
+  // Playing, but the run waits for its stretched renders from the worker
+  const preparingRef = useRef(false);
   const pauseTimeRef = useRef<number>(0);
+  const isPlayingRef = useRef(false);
   const animationFrameRef = useRef<number>();
+
+  // Keep the latest props reachable from audio callbacks
+  const buffersRef = useRef(audioBuffers);
+  buffersRef.current = audioBuffers;
+  const isCompleteRef = useRef(isComplete);
+  isCompleteRef.current = isComplete;
+  const pitchRef = useRef(pitch);
+  pitchRef.current = pitch;
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  // First buffer and speech offset of the audio being played, to tell a
+  // swapped recording from chunks appended to the current one
+  const firstBufferRef = useRef<AudioBuffer | null>(audioBuffers[0] ?? null);
+  const speechOffsetRef = useRef(speechOffset);
   
-  // Create a gain node for volume control (could add slider later)
-  const gainNodeRef = useRef<GainNode | null>(null);
+  // Output graph: sources → loudness gain → compressor → volume → analyser.
+  // The compressor is skipped when normalization is off.
+  const loudnessGainRef = useRef<GainNode | null>(null);
+  const compressorRef = useRef<DynamicsCompressorNode | null>(null);
+  const volumeGainRef = useRef<GainNode | null>(null);
+  // K-weighted block energies per chunk, measured once
+  const loudnessBlocksRef = useRef(new WeakMap<AudioBuffer, Float64Array>());
+  const peaksRef = useRef(new WeakMap<AudioBuffer, Float32Array>());
+
+  const totalDuration = useMemo(() => totalDurationOf(audioBuffers), [audioBuffers]);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const activeSegmentRef = useRef<HTMLSpanElement>(null);
 
   useEffect(() => {
-    // Initialize gain node
-    gainNodeRef.current = audioContext.createGain();
-    gainNodeRef.current.connect(audioContext.destination);
-    
+    const loudnessGain = audioContext.createGain();
+    const compressor = audioContext.createDynamicsCompressor();
+    compressor.threshold.value = COMPRESSOR_SETTINGS.threshold;
+    compressor.knee.value = COMPRESSOR_SETTINGS.knee;
+    compressor.ratio.value = COMPRESSOR_SETTINGS.ratio;
+    compressor.attack.value = COMPRESSOR_SETTINGS.attack;
+    compressor.release.value = COMPRESSOR_SETTINGS.release;
+    const volumeGain = audioContext.createGain();
+    const analyserNode = audioContext.createAnalyser();
+    analyserNode.fftSize = 1024;
+    analyserNode.smoothingTimeConstant = 0.75;
+
+    compressor.connect(volumeGain);
+    volumeGain.connect(analyserNode);
+    analyserNode.connect(audioContext.destination);
+    loudnessGainRef.current = loudnessGain;
+    compressorRef.current = compressor;
+    volumeGainRef.current = volumeGain;
+    setAnalyser(analyserNode);
+
     return () => {
-      stopAudio();
-      gainNodeRef.current?.disconnect();
+      stopSources();
+      isPlayingRef.current = false;
+      stretcherRef.current?.dispose();
+      stretcherRef.current = null;
+      [loudnessGain, compressor, volumeGain, analyserNode].forEach(node => node.disconnect());
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [audioContext]);
 
-  // Update detune in real-time
+  const currentPosition = useCallback(() => {
+    if (!isPlayingRef.current) return pauseTimeRef.current;
+    if (preparingRef.current) return startPositionRef.current;
+    const elapsed = (audioContext.currentTime - startTimeRef.current) * rateRef.current;
+    return Math.min(startPositionRef.current + elapsed, scheduledEndRef.current);
+  }, [audioContext]);
+
+  const stopSources = () => {
+    sourcesRef.current.forEach(source => {
+      // Clear onended so a manual stop isn't mistaken for reaching the end
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    });
+    sourcesRef.current = [];
+  };
+
+  const handleSourceEnded = (source: AudioBufferSourceNode) => {
+    sourcesRef.current = sourcesRef.current.filter(s => s !== source);
+    if (sourcesRef.current.length > 0) return;
+
+    const allScheduled = scheduledCountRef.current >= buffersRef.current.length;
+    if (isCompleteRef.current && allScheduled) {
+      // When the audio naturally finishes. Stay at the end: play restarts
+      // from the top, unless an update is appended first, then it plays that.
+      isPlayingRef.current = false;
+      setIsPlaying(false);
+      pauseTimeRef.current = scheduledEndRef.current;
+      setPosition(scheduledEndRef.current);
+    } else {
+      // Ran ahead of synthesis: hold here until the next chunk arrives
+      pauseTimeRef.current = scheduledEndRef.current;
+      setIsBuffering(true);
+    }
+  };
+
+  const needsStretch = (tempo: number) => Math.abs(tempo - 1) >= 1e-3;
+  const tempoKey = (tempo: number) => Math.round(tempo * 1000);
+
+  const rendersOf = (buffer: AudioBuffer) => {
+    let renders = stretchCacheRef.current.get(buffer);
+    if (!renders) {
+      renders = new Map();
+      stretchCacheRef.current.set(buffer, renders);
+    }
+    return renders;
+  };
+
+  // Only the latest tempo is worth keeping around
+  const keepRender = (buffer: AudioBuffer, tempo: number, render: AudioBuffer) => {
+    const renders = rendersOf(buffer);
+    renders.clear();
+    renders.set(tempoKey(tempo), render);
+  };
+
+  // Renders the buffers for `tempo` in the worker, so scheduling finds them ready
+  const prepareStretch = async (buffers: AudioBuffer[], tempo: number) => {
+    if (!needsStretch(tempo)) return;
+    const missing = buffers.filter(buffer => !rendersOf(buffer).has(tempoKey(tempo)));
+    if (missing.length === 0) return;
+    stretcherRef.current ??= createStretcher();
+    const stretcher = stretcherRef.current;
+    await Promise.all(missing.map(async buffer => {
+      keepRender(buffer, tempo, await stretcher.stretch(audioContext, buffer, tempo));
+    }));
+  };
+
+  // Chunks that arrived while a render was running are short enough to
+  // stretch right here
+  const stretched = (buffer: AudioBuffer, tempo: number) => {
+    if (!needsStretch(tempo)) return buffer;
+    const render = rendersOf(buffer).get(tempoKey(tempo));
+    if (render) return render;
+    const result = timeStretchBuffer(audioContext, buffer, tempo);
+    keepRender(buffer, tempo, result);
+    return result;
+  };
+
+  // Schedules chunks from `fromIndex` onwards relative to the current run
+  const scheduleFrom = (fromIndex: number) => {
+    const buffers = buffersRef.current;
+    let chunkStart = totalDurationOf(buffers.slice(0, fromIndex));
+
+    for (let i = fromIndex; i < buffers.length; i++) {
+      const buffer = buffers[i];
+      const chunkEnd = chunkStart + buffer.duration;
+
+      if (chunkEnd > startPositionRef.current) {
+        const offset = Math.max(0, startPositionRef.current - chunkStart);
+        const when = startTimeRef.current + Math.max(0, chunkStart - startPositionRef.current) / rateRef.current;
+
+        const source = audioContext.createBufferSource();
+        source.buffer = stretched(buffer, tempoRef.current);
+        // Resampling via detune shifts pitch; the stretch already compensated its speed effect
+        source.detune.value = pitchRef.current;
+        source.connect(loudnessGainRef.current!);
+        source.onended = () => handleSourceEnded(source);
+        source.start(when, offset / tempoRef.current);
+        sourcesRef.current.push(source);
+      }
+      chunkStart = chunkEnd;
+    }
+
+    scheduledCountRef.current = buffers.length;
+    scheduledEndRef.current = chunkStart;
+  };
+
+  // Lets the OS scrubber extrapolate the position on its own between updates
+  const syncPositionState = () => {
+    updatePositionState(getMediaSession(), {
+      duration: totalDurationOf(buffersRef.current),
+      position: isPlayingRef.current ? currentPosition() : pauseTimeRef.current,
+      playbackRate: isPlayingRef.current ? rateRef.current : 1,
+    });
+  };
+
+  const playFrom = (from: number) => {
+    if (audioContext.state === 'suspended') {
+      audioContext.resume();
+    }
+
+    stopSources();
+    const run = ++runRef.current;
+    startPositionRef.current = from;
+    const plan = stretchPlan(speedRef.current, pitchRef.current);
+    rateRef.current = speedRef.current;
+    tempoRef.current = plan.tempo;
+    isPlayingRef.current = true;
+    setIsPlaying(true);
+
+    const start = () => {
+      preparingRef.current = false;
+      startTimeRef.current = audioContext.currentTime;
+      scheduleFrom(0);
+      // Nothing left to schedule yet: we're waiting on synthesis
+      setIsBuffering(sourcesRef.current.length === 0);
+      syncPositionState();
+    };
+
+    // Chunks still ahead of the position, for a new speed or pitch
+    let chunkStart = 0;
+    const ahead = buffersRef.current.filter(buffer => {
+      chunkStart += buffer.duration;
+      return chunkStart > from;
+    });
+    const isReady = !needsStretch(plan.tempo) || ahead.every(buffer => rendersOf(buffer).has(tempoKey(plan.tempo)));
+    if (isReady) {
+      start();
+      return;
+    }
+
+    preparingRef.current = true;
+    setIsBuffering(true);
+    syncPositionState();
+    prepareStretch(ahead, plan.tempo)
+      .then(() => {
+        if (runRef.current === run && isPlayingRef.current) start();
+      })
+      .catch(error => {
+        if (runRef.current !== run || !isPlayingRef.current) return;
+        // The worker failed: stretch here rather than not play at all
+        console.warn('Worker time-stretch failed:', error);
+        start();
+      });
+  };
+
+  // New chunks arrived: append them to the running schedule, or resume if
+  // playback had caught up with synthesis
   useEffect(() => {
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.detune.value = pitch;
+    const replaced = firstBufferRef.current !== null && audioBuffers[0] !== firstBufferRef.current;
+    firstBufferRef.current = audioBuffers[0] ?? null;
+    if (replaced) {
+      const from = isPlayingRef.current ? currentPosition() : pauseTimeRef.current;
+      const target = Math.max(0, from - speechOffsetRef.current + speechOffset);
+      speechOffsetRef.current = speechOffset;
+      if (isPlayingRef.current) {
+        playFrom(target);
+      } else {
+        pauseTimeRef.current = target;
+        setPosition(target);
+        syncPositionState();
+      }
+      return;
     }
-  }, [pitch]);
+    // The pending run schedules whatever has arrived by the time it starts
+    if (preparingRef.current) return;
+    if (!isPlayingRef.current || audioBuffers.length <= scheduledCountRef.current) {
+      if (isBuffering && isComplete && audioBuffers.length <= scheduledCountRef.current) {
+        isPlayingRef.current = false;
+        setIsPlaying(false);
+        setIsBuffering(false);
+      }
+      return;
+    }
+    if (sourcesRef.current.length === 0) {
+      playFrom(scheduledEndRef.current);
+      return;
+    }
+    const run = runRef.current;
+    prepareStretch(audioBuffers.slice(scheduledCountRef.current), tempoRef.current)
+      .catch(error => console.warn('Worker time-stretch failed:', error))
+      .then(() => {
+        if (runRef.current !== run || !isPlayingRef.current) return;
+        if (sourcesRef.current.length === 0) {
+          playFrom(scheduledEndRef.current);
+        } else {
+          scheduleFrom(scheduledCountRef.current);
+        }
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioBuffers, isComplete]);
+
+  // Speed/pitch changes need a new render: re-anchor the schedule at the
+  // current position, debounced so dragging a slider doesn't re-stretch each step
+  useEffect(() => {
+    if (!isPlayingRef.current || (sourcesRef.current.length === 0 && !preparingRef.current)) return;
+    const timer = setTimeout(() => playFrom(currentPosition()), 150);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pitch, speed]);
+
+  // Normalization routes through the compressor; off plays the chunks untouched
+  useEffect(() => {
+    const loudnessGain = loudnessGainRef.current;
+    if (!loudnessGain) return;
+    loudnessGain.disconnect();
+    loudnessGain.connect(level.normalize ? compressorRef.current! : volumeGainRef.current!);
+  }, [level.normalize, audioContext]);
+
+  // Re-measured as chunks stream in (earlier ones come from the cache), so
+  // the level may settle slightly during the first chunks
+  useEffect(() => {
+    const gain = loudnessGainRef.current?.gain;
+    if (!gain) return;
+    let target = 1;
+    if (level.normalize && audioBuffers.length > 0) {
+      const blocks = audioBuffers.map(buffer => {
+        let measured = loudnessBlocksRef.current.get(buffer);
+        if (!measured) {
+          measured = measureBlocks(buffer);
+          loudnessBlocksRef.current.set(buffer, measured);
+        }
+        return measured;
+      });
+      target = normalizationGain(integratedLoudness(blocks));
+    }
+    gain.setTargetAtTime(target, audioContext.currentTime, GAIN_SMOOTHING);
+  }, [audioBuffers, level.normalize, audioContext]);
+
+  useEffect(() => {
+    volumeGainRef.current?.gain.setTargetAtTime(level.volume, audioContext.currentTime, GAIN_SMOOTHING);
+  }, [level.volume, audioContext]);
+
+  // Peak per bar across the whole briefing, scaled to the loudest bar
+  const waveform = useMemo(() => {
+    const envelope = audioBuffers.flatMap(buffer => {
+      let peaks = peaksRef.current.get(buffer);
+      if (!peaks) {
+        peaks = peakEnvelope(buffer, PEAK_BIN_SECONDS);
+        peaksRef.current.set(buffer, peaks);
+      }
+      return Array.from(peaks);
+    });
+    if (envelope.length === 0) return [];
+    const bars = Array.from({ length: WAVEFORM_BARS }, (_, i) => {
+      const from = Math.floor((i * envelope.length) / WAVEFORM_BARS);
+      const to = Math.max(from + 1, Math.floor(((i + 1) * envelope.length) / WAVEFORM_BARS));
+      return Math.max(0, ...envelope.slice(from, to));
+    });
+    const loudest = Math.max(...bars) || 1;
+    return bars.map(peak => peak / loudest);
+  }, [audioBuffers]);
 
   const updateProgress = useCallback(() => {
-    const currentTime = audioContext.currentTime;
-    
-    // Note: This calculation assumes 1x playback speed for simplicity.
-    // Significant pitch shifting (detuning) will affect playback speed and 
-    // cause the progress bar to slightly drift from the actual audio content.
-    const elapsed = currentTime - startTimeRef.current + pauseTimeRef.current;
-    
-    const p = Math.min((elapsed / audioBuffer.duration) * 100, 100);
-    setProgress(p);
-
-    if (elapsed < audioBuffer.duration && isPlaying) {
+    setPosition(currentPosition());
+    if (isPlayingRef.current) {
       animationFrameRef.current = requestAnimationFrame(updateProgress);
-    } else if (elapsed >= audioBuffer.duration) {
-      // We rely on onended mostly, but this is a fallback for UI sync
-      // If we are significantly detuned, the audio might have already stopped.
     }
-  }, [audioBuffer.duration, audioContext, isPlaying]);
+  }, [currentPosition]);
 
   useEffect(() => {
     if (isPlaying) {
@@ -65,61 +431,31 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
     } else {
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     }
-  }, [isPlaying, updateProgress]);
-
-  const playAudio = () => {
-    if (audioContext.state === 'suspended') {
-      audioContext.resume();
-    }
-
-    const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.detune.value = pitch; // Set initial pitch
-    source.connect(gainNodeRef.current!);
-    
-    // Start playing from the paused position
-    const offset = pauseTimeRef.current;
-    
-    source.start(0, offset);
-    startTimeRef.current = audioContext.currentTime;
-    sourceNodeRef.current = source;
-    
-    source.onended = () => {
-      // When the audio naturally finishes
-      // We check if it was manually stopped (sourceNodeRef is null) or natural end
-      if (sourceNodeRef.current) {
-        setIsPlaying(false);
-        pauseTimeRef.current = 0;
-        setProgress(100);
-        sourceNodeRef.current = null;
-      }
+    return () => {
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-
-    setIsPlaying(true);
-  };
+  }, [isPlaying, updateProgress]);
 
   const pauseAudio = () => {
-    if (sourceNodeRef.current) {
-      // We must clear the onended handler so it doesn't trigger the reset logic
-      sourceNodeRef.current.onended = null;
-      sourceNodeRef.current.stop();
-      sourceNodeRef.current = null;
-      // Record how much we played
-      pauseTimeRef.current += audioContext.currentTime - startTimeRef.current;
-      setIsPlaying(false);
-    }
+    // Record how much we played
+    pauseTimeRef.current = currentPosition();
+    stopSources();
+    isPlayingRef.current = false;
+    preparingRef.current = false;
+    setIsPlaying(false);
+    setIsBuffering(false);
+    syncPositionState();
   };
 
   const stopAudio = () => {
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.onended = null;
-      sourceNodeRef.current.stop();
-      sourceNodeRef.current = null;
-    }
+    stopSources();
+    isPlayingRef.current = false;
+    preparingRef.current = false;
     setIsPlaying(false);
+    setIsBuffering(false);
     pauseTimeRef.current = 0;
-    setProgress(0);
-    if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    setPosition(0);
+    syncPositionState();
   };
 
   const togglePlay = () => {
@@ -127,11 +463,65 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
       pauseAudio();
     } else {
       // If we reached the end, reset
-      if (progress >= 100) {
-        pauseTimeRef.current = 0;
-      }
-      playAudio();
+      const from = isComplete && pauseTimeRef.current >= totalDuration ? 0 : pauseTimeRef.current;
+      playFrom(from);
+    }
+  };
+
+  const seek = (to: number) => {
+    const target = Math.max(0, Math.min(to, totalDuration));
+    if (isPlayingRef.current) {
+      playFrom(target);
+    } else {
+      pauseTimeRef.current = target;
+      syncPositionState();
+    }
+    setPosition(target);
+  };
+
+  const positionFromPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min((e.clientX - rect.left) / rect.width, 1));
+    return fraction * totalDuration;
+  };
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setScrubPosition(positionFromPointer(e));
+  };
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubPosition !== null) setScrubPosition(positionFromPointer(e));
+  };
+
+  const handleScrubEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubPosition === null) return;
+    seek(positionFromPointer(e));
+    setScrubPosition(null);
+  };
+
+  const skipBy = (seconds: number) => {
+    seek((isPlayingRef.current ? currentPosition() : pauseTimeRef.current) + seconds);
+  };
+
+  const skipChapter = (direction: 1 | -1) => {
+    const from = isPlayingRef.current ? currentPosition() : pauseTimeRef.current;
+    const index = findChapterIndex(chapters, from);
+    if (direction === 1) {
+      const next = chapters[index + 1];
+      if (next) seek(next.start);
+      return;
     }
+    const current = chapters[index];
+    if (current && from - current.start > CHAPTER_RESTART_GRACE) seek(current.start);
+    else seek(chapters[index - 1]?.start ?? 0);
+  };
+
+  const handleProgressKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowRight') seek(position + 5);
+    else if (e.key === 'ArrowLeft') seek(position - 5);
+    else return;
+    e.preventDefault();
   };
 
   // Format time
@@ -141,7 +531,84 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
     return `${m}:${s.toString().padStart(2, '0')}`;
   };
 
-  const currentSeconds = (progress / 100) * audioBuffer.duration;
+  const displayPosition = scrubPosition ?? position;
+  const progress = totalDuration > 0 ? Math.min((displayPosition / totalDuration) * 100, 100) : 0;
+  const currentSeconds = displayPosition;
+
+  const activeSegmentIndex = findSegmentIndex(segments, displayPosition);
+  const unverifiedCount = segments.filter(s => s.unsupported).length;
+  const activeChapterIndex = findChapterIndex(chapters, displayPosition);
+  const activeChapter = chapters[activeChapterIndex];
+
+  // Latest handlers for the lock screen, headset buttons and keyboard, which
+  // are bound once and would otherwise see stale state
+  const controlsRef = useRef({ togglePlay, pauseAudio, seek, skipBy, skipChapter });
+  controlsRef.current = { togglePlay, pauseAudio, seek, skipBy, skipChapter };
+
+  useEffect(() => {
+    const session = getMediaSession();
+    const unbind = bindMediaSession(session, {
+      play: () => !isPlayingRef.current && controlsRef.current.togglePlay(),
+      pause: () => isPlayingRef.current && controlsRef.current.pauseAudio(),
+      seekTo: seconds => controlsRef.current.seek(seconds),
+      seekBy: seconds => controlsRef.current.skipBy(seconds),
+      nextChapter: () => controlsRef.current.skipChapter(1),
+      previousChapter: () => controlsRef.current.skipChapter(-1),
+    });
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = shortcutFor(e);
+      if (!action) return;
+      e.preventDefault();
+      if (action.type === 'toggle') controlsRef.current.togglePlay();
+      else if (action.type === 'seekBy') controlsRef.current.skipBy(action.seconds);
+      else controlsRef.current.skipChapter(action.direction);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      unbind();
+      clearMediaSession(session);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  useEffect(() => {
+    updateMediaMetadata(getMediaSession(), { title: title || 'Seu Briefing Diário', createdAt, chapter: activeChapter?.title });
+  }, [title, createdAt, activeChapter?.title]);
+
+  useEffect(() => {
+    const session = getMediaSession();
+    if (session) session.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [isPlaying]);
+
+  // The duration grows while chunks stream in
+  useEffect(() => {
+    syncPositionState();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [totalDuration]);
+
+  // Keep the current sentence in view inside the transcript box
+  useEffect(() => {
+    const container = transcriptRef.current;
+    const active = activeSegmentRef.current;
+    if (!container || !active || !isPlaying) return;
+    container.scrollTo({ top: active.offsetTop - container.clientHeight / 2, behavior: 'smooth' });
+  }, [activeSegmentIndex, isPlaying]);
+
+  const fileName = briefingFileName(createdAt ?? Date.now());
+
+  const exportAudio = () => {
+    downloadBlob(encodeWav(concatAudioBuffers(audioContext, audioBuffers), chapters), `${fileName}.wav`);
+  };
+
+  const exportTranscript = (format: 'txt' | 'srt') => {
+    if (!transcript) return;
+    const content = format === 'srt'
+      ? toSrt(segments.length > 0 ? segments : estimateSegments(transcript, totalDuration))
+      : transcript;
+    downloadBlob(new Blob([content], { type: 'text/plain;charset=utf-8' }), `${fileName}.${format}`);
+  };
 
   return (
     <div className="bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden">
@@ -149,30 +616,30 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
       <div className="bg-indigo-600 px-6 py-8 text-white relative overflow-hidden">
         <div className="absolute inset-0 bg-gradient-to-br from-indigo-600 to-purple-700 opacity-90"></div>
         
-        {/* Abstract animated waves */}
-        {isPlaying && (
-          <div className="absolute inset-0 flex items-center justify-center opacity-20 pointer-events-none">
-             <div className="flex gap-1 h-32 items-center">
-                {[...Array(20)].map((_, i) => (
-                  <div 
-                    key={i} 
-                    className="w-2 bg-white rounded-full animate-pulse"
-                    style={{
-                      height: `${Math.random() * 100}%`,
-                      animationDuration: `${0.4 + Math.random() * 0.5}s`
-                    }}
-                  />
-                ))}
-             </div>
-          </div>
-        )}
+        <AudioVisualizer
+          analyser={analyser}
+          active={isPlaying}
+          mode={visualizerMode}
+          className="absolute inset-x-6 inset-y-4 w-[calc(100%-3rem)] h-[calc(100%-2rem)] opacity-30 pointer-events-none"
+        />
 
         <div className="relative z-10">
-          <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
-            <Volume2 className="w-5 h-5" />
-            Seu Briefing Diário
-          </h2>
-          <p className="text-indigo-100 text-sm opacity-90">Gerado por Inteligência Artificial</p>
+          <div className="flex items-start justify-between gap-3">
+            <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+              <Volume2 className="w-5 h-5" />
+              {title || 'Seu Briefing Diário'}
+            </h2>
+            <button
+              onClick={() => setVisualizerMode(mode => (mode === 'spectrum' ? 'waveform' : 'spectrum'))}
+              className="p-1.5 text-indigo-100 hover:text-white hover:bg-white/10 rounded-lg transition-colors flex-shrink-0"
+              title={visualizerMode === 'spectrum' ? 'Mostrar forma de onda' : 'Mostrar espectro'}
+            >
+              <AudioWaveform className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-indigo-100 text-sm opacity-90 truncate">
+            {activeChapter ? `Agora: ${activeChapter.title}` : 'Gerado por Inteligência Artificial'}
+          </p>
         </div>
       </div>
 
@@ -180,18 +647,52 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
       <div className="p-6">
         <div className="flex items-center justify-between mb-4 text-xs text-slate-500 font-medium font-mono">
           <span>{formatTime(currentSeconds)}</span>
-          <span>{formatTime(audioBuffer.duration)}</span>
+          {isBuffering && <span className="text-indigo-500 animate-pulse">Carregando...</span>}
+          <span>{formatTime(totalDuration)}{isComplete ? '' : '+'}</span>
         </div>
 
-        {/* Progress Bar */}
-        <div className="relative w-full h-2 bg-slate-100 rounded-full mb-8 overflow-hidden">
-          <div 
-            className="absolute top-0 left-0 h-full bg-indigo-600 rounded-full transition-all duration-100 ease-linear"
-            style={{ width: `${progress}%` }}
+        {/* Progress Bar (click or drag to seek) */}
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Posição"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(totalDuration)}
+          aria-valuenow={Math.round(displayPosition)}
+          aria-valuetext={formatTime(displayPosition)}
+          onPointerDown={handleScrubStart}
+          onPointerMove={handleScrubMove}
+          onPointerUp={handleScrubEnd}
+          onPointerCancel={() => setScrubPosition(null)}
+          onKeyDown={handleProgressKeyDown}
+          className="group/progress relative w-full py-2 mb-6 cursor-pointer touch-none focus:outline-none"
+        >
+          <div className="relative w-full h-10 flex items-center gap-px rounded-md group-focus-visible/progress:ring-2 group-focus-visible/progress:ring-indigo-500/30">
+            {waveform.length > 0 ? waveform.map((peak, i) => (
+              <div
+                key={i}
+                className={`flex-1 rounded-full ${((i + 0.5) / waveform.length) * 100 <= progress ? 'bg-indigo-600' : 'bg-slate-200'}`}
+                style={{ height: `${Math.max(8, peak * 100)}%` }}
+              />
+            )) : (
+              <div className="w-full h-2 bg-slate-100 rounded-full" />
+            )}
+            {/* Chapter boundaries */}
+            {totalDuration > 0 && chapters.slice(1).map((chapter, i) => (
+              <div
+                key={i}
+                className="absolute top-0 h-full w-0.5 bg-white"
+                style={{ left: `${Math.min((chapter.start / totalDuration) * 100, 100)}%` }}
+              />
+            ))}
+          </div>
+          <div
+            className="absolute top-1/2 w-3.5 h-3.5 -mt-[7px] -ml-[7px] bg-white border-2 border-indigo-600 rounded-full shadow opacity-0 group-hover/progress:opacity-100 transition-opacity"
+            style={{ left: `${progress}%` }}
           />
         </div>
 
-        <div className="flex items-center justify-center gap-6 mb-8">
+        <div className="flex items-center justify-center gap-3 mb-8">
            <button 
              onClick={stopAudio}
              className="p-3 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-full transition-all"
@@ -200,6 +701,23 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
              <RotateCcw className="w-5 h-5" />
            </button>
 
+           <button
+             onClick={() => skipChapter(-1)}
+             disabled={chapters.length < 2}
+             className="p-3 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-full transition-all disabled:opacity-30 disabled:pointer-events-none"
+             title="Capítulo anterior"
+           >
+             <SkipBack className="w-5 h-5" />
+           </button>
+
+           <button
+             onClick={() => skipBy(-SKIP_SECONDS)}
+             className="w-11 h-11 text-xs font-bold font-mono text-slate-500 hover:text-slate-700 hover:bg-slate-50 rounded-full transition-all"
+             title={`Voltar ${SKIP_SECONDS} segundos`}
+           >
+             −{SKIP_SECONDS}
+           </button>
+
            <button 
              onClick={togglePlay}
              className="w-16 h-16 flex items-center justify-center bg-indigo-600 hover:bg-indigo-700 text-white rounded-full shadow-lg shadow-indigo-200 transition-all transform hover:scale-105 active:scale-95"
@@ -211,11 +729,73 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
              )}
            </button>
 
+           <button
+             onClick={() => skipBy(SKIP_SECONDS)}
+             className="w-11 h-11 text-xs font-bold font-mono text-slate-500 hover:text-slate-700 hover:bg-slate-50 rounded-full transition-all"
+             title={`Avançar ${SKIP_SECONDS} segundos`}
+           >
+             +{SKIP_SECONDS}
+           </button>
+
+           <button
+             onClick={() => skipChapter(1)}
+             disabled={activeChapterIndex >= chapters.length - 1}
+             className="p-3 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-full transition-all disabled:opacity-30 disabled:pointer-events-none"
+             title="Próximo capítulo"
+           >
+             <SkipForward className="w-5 h-5" />
+           </button>
+
            <div className="w-11" /> {/* Spacer for alignment */}
         </div>
 
+        {/* Chapters */}
+        {chapters.length > 1 && (
+          <details className="group mb-4" open>
+            <summary className="list-none flex items-center justify-between cursor-pointer py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider hover:text-indigo-600 transition-colors select-none">
+              <span className="flex items-center gap-2">
+                <ListOrdered className="w-4 h-4" />
+                Capítulos ({chapters.length})
+              </span>
+              <ChevronDown className="w-4 h-4 transition-transform duration-300 group-open:rotate-180" />
+            </summary>
+            <ol className="mt-1 space-y-1">
+              {chapters.map((chapter, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => seek(chapter.start)}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors ${i === activeChapterIndex ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <span className="text-xs font-mono text-slate-400 w-10">{formatTime(chapter.start)}</span>
+                    <span className="truncate">{chapter.title}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </details>
+        )}
+
+        {/* Speed Control */}
+        <div className="flex items-center gap-3 px-4 py-3 mb-2 bg-slate-50 rounded-xl border border-slate-100">
+          <Gauge className="w-4 h-4 text-slate-400" />
+          <span className="text-xs font-semibold text-slate-500 w-16">Velocidade</span>
+          <input 
+            type="range" 
+            min={MIN_SPEED} 
+            max={MAX_SPEED} 
+            step="0.05" 
+            value={speed}
+            onChange={(e) => onSpeedChange?.(Number(e.target.value))}
+            onDoubleClick={() => onSpeedChange?.(1)}
+            className="flex-grow h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 hover:accent-indigo-700"
+          />
+          <span className="text-xs font-mono font-medium text-slate-500 w-12 text-right">
+            {speed.toFixed(2)}×
+          </span>
+        </div>
+
         {/* Pitch Control */}
-        <div className="flex items-center gap-3 px-4 py-3 bg-slate-50 rounded-xl border border-slate-100">
+        <div className="flex items-center gap-3 px-4 py-3 mb-2 bg-slate-50 rounded-xl border border-slate-100">
           <Sliders className="w-4 h-4 text-slate-400" />
           <span className="text-xs font-semibold text-slate-500 w-16">Tom</span>
           <input 
@@ -225,12 +805,70 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
             step="10" 
             value={pitch}
             onChange={(e) => setPitch(Number(e.target.value))}
+            onDoubleClick={() => setPitch(0)}
             className="flex-grow h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 hover:accent-indigo-700"
           />
           <span className="text-xs font-mono font-medium text-slate-500 w-12 text-right">
             {pitch > 0 ? '+' : ''}{Math.round(pitch / 100 * 10) / 10}st
           </span>
         </div>
+
+        {/* Volume and loudness normalization */}
+        <div className="flex items-center gap-3 px-4 py-3 bg-slate-50 rounded-xl border border-slate-100">
+          {level.volume === 0 ? <VolumeX className="w-4 h-4 text-slate-400" /> : <Volume2 className="w-4 h-4 text-slate-400" />}
+          <span className="text-xs font-semibold text-slate-500 w-16">Volume</span>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={level.volume}
+            onChange={(e) => onLevelChange?.({ ...level, volume: Number(e.target.value) })}
+            onDoubleClick={() => onLevelChange?.({ ...level, volume: 1 })}
+            className="flex-grow h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 hover:accent-indigo-700"
+          />
+          <span className="text-xs font-mono font-medium text-slate-500 w-12 text-right">
+            {Math.round(level.volume * 100)}%
+          </span>
+          <button
+            onClick={() => onLevelChange?.({ ...level, normalize: !level.normalize })}
+            aria-pressed={level.normalize}
+            className={`px-2 py-1 text-[11px] font-semibold rounded-md transition-colors ${level.normalize ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-500 hover:text-slate-700'}`}
+            title={`Nivelar o volume em ${TARGET_LUFS} LUFS e comprimir levemente, para ouvir com ruído de estrada`}
+          >
+            Nivelar
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="flex items-center gap-2 mt-4">
+          <Download className="w-4 h-4 text-slate-400" />
+          <span className="text-xs font-semibold text-slate-500 mr-auto">Baixar</span>
+          <button
+            onClick={exportAudio}
+            disabled={!isComplete}
+            className="px-3 py-1.5 text-xs font-medium bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700 text-slate-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Áudio (.wav)
+          </button>
+          {transcript && (
+            <>
+              <button
+                onClick={() => exportTranscript('txt')}
+                className="px-3 py-1.5 text-xs font-medium bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700 text-slate-600 rounded-lg transition-colors"
+              >
+                Texto (.txt)
+              </button>
+              <button
+                onClick={() => exportTranscript('srt')}
+                disabled={!isComplete}
+                className="px-3 py-1.5 text-xs font-medium bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700 text-slate-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Legenda (.srt)
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Transcript toggle */}
@@ -244,8 +882,51 @@ export const Player: React.FC<PlayerProps> = ({ audioBuffer, audioContext, trans
                </span>
                <ChevronDown className="w-4 h-4 transition-transform duration-300 group-open:rotate-180" />
              </summary>
-             <div className="mt-3 p-4 bg-slate-50 rounded-xl text-sm text-slate-600 leading-relaxed max-h-60 overflow-y-auto border border-slate-100 shadow-inner font-serif whitespace-pre-wrap">
-               {transcript}
+             <div
+               ref={transcriptRef}
+               className="relative mt-3 p-4 bg-slate-50 rounded-xl text-sm text-slate-600 leading-relaxed max-h-60 overflow-y-auto border border-slate-100 shadow-inner font-serif whitespace-pre-wrap"
+             >
+               {segments.length > 0 ? (
+                 <>
+                   {unverifiedCount > 0 && (
+                     <p className="font-sans text-xs text-amber-700 bg-amber-50 rounded-lg px-2.5 py-1.5 mb-3 whitespace-normal">
+                       {unverifiedCount === 1 ? '1 frase cita' : `${unverifiedCount} frases citam`} nomes ou números que não aparecem nos artigos. Passe o mouse para ver.
+                     </p>
+                   )}
+                   {segments.map((segment, i) => {
+                     const isActive = i === activeSegmentIndex;
+                     const sourceNames = (segment.sources ?? []).map(id => sourceTitles[id]).filter(Boolean);
+                     const hint = [
+                       sourceNames.length > 0 ? `Fonte: ${sourceNames.join('; ')}` : '',
+                       segment.unsupported ? `Não encontrado nas fontes: ${segment.unsupported.join(', ')}` : '',
+                     ].filter(Boolean).join('\n');
+                     // Dialogue: start a new line with the host's name at each change of speaker
+                     const speakerChanged = segment.speaker && segment.speaker !== segments[i - 1]?.speaker;
+                     return (
+                       <React.Fragment key={i}>
+                         {speakerChanged && (
+                           <>
+                             {i > 0 && '\n'}
+                             <span className={`font-sans text-xs font-bold uppercase tracking-wider mr-2 ${segment.speaker === DIALOGUE_HOSTS[0] ? 'text-indigo-600' : 'text-purple-600'}`}>
+                               {segment.speaker}
+                             </span>
+                           </>
+                         )}
+                         <span
+                           ref={isActive ? activeSegmentRef : undefined}
+                           onClick={() => seek(segment.start)}
+                           title={hint || undefined}
+                           className={`cursor-pointer rounded transition-colors ${isActive ? 'bg-indigo-100 text-indigo-900' : 'hover:bg-slate-100'} ${segment.unsupported ? 'underline decoration-wavy decoration-amber-400 underline-offset-4' : ''}`}
+                         >
+                           {segment.text}
+                         </span>
+                         {' '}
+                       </React.Fragment>
+                     );
+                   })}
+                   {!isComplete && <span className="text-slate-400 animate-pulse">…</span>}
+                 </>
+               ) : transcript}
              </div>
            </details>
         </div>
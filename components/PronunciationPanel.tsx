@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { BookA, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { PronunciationRule, PronunciationSettings } from '../types';
+import { BRIEFING_LANGUAGES } from '../services/promptService';
+import { exportLexicon, mergeLexicon, parseLexicon, prepareForSpeech } from '../services/pronunciationService';
+import { supportsNormalization } from '../services/normalizationService';
+import { downloadBlob } from '../services/exportService';
+
+interface PronunciationPanelProps {
+  settings: PronunciationSettings;
+  onChange: (settings: PronunciationSettings) => void;
+  // Briefing language, for the preview
+  language: string;
+}
+
+const fieldClassName = "p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+export const PronunciationPanel: React.FC<PronunciationPanelProps> = ({ settings, onChange, language }) => {
+  const [preview, setPreview] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setRules = (rules: PronunciationRule[]) => onChange({ ...settings, rules });
+  const updateRule = (index: number, patch: Partial<PronunciationRule>) =>
+    setRules(settings.rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setRules(mergeLexicon(settings.rules, parseLexicon(await file.text())));
+      setImportError(null);
+    } catch (error: any) {
+      setImportError(error.message);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+          <BookA className="w-4 h-4" />
+          Pronúncia
+        </h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+          >
+            <Upload className="w-3.5 h-3.5" />
+            Importar
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([exportLexicon(settings.rules)], { type: 'application/json' }), 'pronuncias.json')}
+            disabled={settings.rules.length === 0}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Exportar
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {settings.rules.length > 0 && (
+        <div className="space-y-2">
+          {settings.rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={rule.term}
+                onChange={(e) => updateRule(index, { term: e.target.value })}
+                placeholder="Termo (ex.: PETR4)"
+                className={`${fieldClassName} w-32 font-mono`}
+              />
+              <span className="text-slate-300 text-sm">→</span>
+              <input
+                value={rule.spoken}
+                onChange={(e) => updateRule(index, { spoken: e.target.value })}
+                placeholder="Como falar (ex.: Petro quatro)"
+                className={`${fieldClassName} flex-1 min-w-0`}
+              />
+              <select
+                value={rule.language ?? ''}
+                onChange={(e) => updateRule(index, { language: e.target.value || undefined })}
+                className={`${fieldClassName} text-xs`}
+                title="Idioma em que a regra vale"
+              >
+                <option value="">Todos</option>
+                {BRIEFING_LANGUAGES.map(l => (
+                  <option key={l.code} value={l.code}>{l.label}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-slate-500 cursor-pointer" title="Ignorar maiúsculas e minúsculas">
+                <input
+                  type="checkbox"
+                  checked={rule.ignoreCase ?? false}
+                  onChange={(e) => updateRule(index, { ignoreCase: e.target.checked || undefined })}
+                  className="accent-indigo-600"
+                />
+                Aa
+              </label>
+              <button
+                onClick={() => setRules(settings.rules.filter((_, i) => i !== index))}
+                className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                aria-label={`Remover "${rule.term}"`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => setRules([...settings.rules, { term: '', spoken: '' }])}
+        className="flex items-center gap-1.5 text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Adicionar termo
+      </button>
+
+      {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+      <label className="flex items-center gap-2 cursor-pointer text-xs font-medium text-slate-600">
+        <input
+          type="checkbox"
+          checked={settings.normalize}
+          onChange={(e) => onChange({ ...settings, normalize: e.target.checked })}
+          className="accent-indigo-600"
+        />
+        Escrever por extenso números, valores, datas, unidades e abreviações
+      </label>
+
+      <div className="space-y-1.5">
+        <input
+          value={preview}
+          onChange={(e) => setPreview(e.target.value)}
+          placeholder="Teste: O lucro da PETR4 foi de R$ 1,5 bi em 12/03/2025"
+          className={`${fieldClassName} w-full`}
+        />
+        {preview.trim() && (
+          <p className="text-xs text-slate-600 bg-slate-50 rounded-lg p-2">{prepareForSpeech(preview, language, settings)}</p>
+        )}
+      </div>
+
+      <p className="text-[11px] text-slate-400">
+        Aplicado só ao texto enviado para a voz; a transcrição mantém o roteiro original.
+        {settings.normalize && !supportsNormalization(language) && ' O idioma atual não tem regras de escrita por extenso.'}
+      </p>
+    </section>
+  );
+};
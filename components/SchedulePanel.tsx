@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlarmClock } from 'lucide-react';
+import { BriefingSchedule } from '../types';
+import { nextRunAt } from '../services/scheduleService';
+
+interface SchedulePanelProps {
+  schedule: BriefingSchedule;
+  onChange: (schedule: BriefingSchedule) => void;
+}
+
+// Sunday first, matching Date.getDay()
+const DAY_LABELS = ['D', 'S', 'T', 'Q', 'Q', 'S', 'S'];
+const DAY_NAMES = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'];
+
+export const SchedulePanel: React.FC<SchedulePanelProps> = ({ schedule, onChange }) => {
+  const update = (patch: Partial<BriefingSchedule>) => onChange({ ...schedule, ...patch });
+  const next = schedule.enabled ? nextRunAt(schedule, Date.now()) : null;
+
+  const toggleDay = (day: number) => {
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter(d => d !== day)
+      : [...schedule.days, day].sort();
+    update({ days });
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+          <AlarmClock className="w-4 h-4" />
+          Briefing Agendado
+        </h2>
+        <label className="flex items-center gap-2 cursor-pointer text-xs font-semibold text-slate-500">
+          <input
+            type="checkbox"
+            checked={schedule.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-indigo-600"
+          />
+          Ativo
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <input
+          type="time"
+          value={schedule.time}
+          onChange={(e) => e.target.value && update({ time: e.target.value })}
+          className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+        />
+        <div className="flex gap-1">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              onClick={() => toggleDay(day)}
+              title={DAY_NAMES[day]}
+              aria-pressed={schedule.days.includes(day)}
+              className={`w-7 h-7 rounded-full text-xs font-semibold transition-colors ${schedule.days.includes(day) ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-[11px] text-slate-400">
+        {next
+          ? `Próximo briefing: ${new Date(next).toLocaleString([], { weekday: 'long', hour: '2-digit', minute: '2-digit' })}. `
+          : ''}
+        O briefing é preparado com a fila salva quando o app está aberto no horário (ou é aberto até 2 horas depois).
+      </p>
+    </section>
+  );
+};
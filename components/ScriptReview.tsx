@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { FileCheck, Mic, RefreshCw, X } from 'lucide-react';
+import { ScriptSection, sectionsToScript } from '../services/chapterService';
+import { ReviewSection, countSpokenWords, estimateSpokenSeconds, fromReviewSections } from '../services/reviewService';
+
+interface ScriptReviewProps {
+  sections: ReviewSection[];
+  dialogue: boolean;
+  targetMinutes: number;
+  isUpdate: boolean;
+  // Resolves to a new version of `paragraph`; rejects with a user-facing message
+  onRewrite: (paragraph: string, script: string) => Promise<string>;
+  // The edited script, ready to be chunked and voiced
+  onApprove: (sections: ScriptSection[]) => void;
+  onDiscard: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// Roughly one textarea row per line of text at this width
+const CHARS_PER_ROW = 80;
+
+export const ScriptReview: React.FC<ScriptReviewProps> = ({ sections: initial, dialogue, targetMinutes, isUpdate, onRewrite, onApprove, onDiscard }) => {
+  const [sections, setSections] = useState(initial);
+  // "section:paragraph" of the paragraph being rewritten
+  const [rewriting, setRewriting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const script = sectionsToScript(fromReviewSections(sections, dialogue));
+  const words = countSpokenWords(script);
+
+  const setParagraph = (sectionIndex: number, paragraphIndex: number, text: string) => {
+    setSections(prev => prev.map((s, i) => (i === sectionIndex
+      ? { ...s, paragraphs: s.paragraphs.map((p, j) => (j === paragraphIndex ? text : p)) }
+      : s)));
+  };
+
+  const handleRewrite = async (sectionIndex: number, paragraphIndex: number) => {
+    const paragraph = sections[sectionIndex].paragraphs[paragraphIndex];
+    if (!paragraph.trim()) return;
+    setRewriting(`${sectionIndex}:${paragraphIndex}`);
+    setError(null);
+    try {
+      setParagraph(sectionIndex, paragraphIndex, await onRewrite(paragraph, script));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRewriting(null);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-start justify-between gap-4 mb-5">
+        <div>
+          <h2 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+            <FileCheck className="w-4 h-4 text-indigo-600" />
+            {isUpdate ? 'Revisar Novidades' : 'Revisar Roteiro'}
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Edite ou reescreva os parágrafos antes de gravar. Nada foi sintetizado ainda.
+          </p>
+        </div>
+        <div className="text-right text-xs text-slate-500 flex-shrink-0">
+          <p className="font-semibold text-slate-700">{words.toLocaleString()} palavras</p>
+          <p>~{formatDuration(estimateSpokenSeconds(words))} de áudio (meta: {targetMinutes} min)</p>
+        </div>
+      </div>
+
+      <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+        {sections.map((section, sectionIndex) => (
+          <div key={sectionIndex} className="space-y-2">
+            <h3 className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider truncate">{section.title}</h3>
+            {section.paragraphs.map((paragraph, paragraphIndex) => {
+              const isRewriting = rewriting === `${sectionIndex}:${paragraphIndex}`;
+              return (
+                <div key={paragraphIndex} className="group flex items-start gap-2">
+                  <textarea
+                    value={paragraph}
+                    onChange={(e) => setParagraph(sectionIndex, paragraphIndex, e.target.value)}
+                    disabled={isRewriting}
+                    rows={Math.max(2, Math.ceil(paragraph.length / CHARS_PER_ROW))}
+                    className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm leading-relaxed text-slate-700 resize-y focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-50"
+                  />
+                  <button
+                    onClick={() => handleRewrite(sectionIndex, paragraphIndex)}
+                    disabled={rewriting !== null || !paragraph.trim()}
+                    className="flex-shrink-0 p-1.5 mt-1 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                    title="Reescrever este parágrafo"
+                    aria-label="Reescrever este parágrafo"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isRewriting ? 'animate-spin' : ''}`} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-3 text-xs text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2 mt-5 pt-4 border-t border-slate-100">
+        <button
+          onClick={onDiscard}
+          className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-xl transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Descartar
+        </button>
+        <button
+          onClick={() => onApprove(fromReviewSections(sections, dialogue))}
+          disabled={rewriting !== null || words === 0}
+          className="flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-semibold transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Mic className="w-4 h-4" />
+          Aprovar e Gravar Áudio
+        </button>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { ProviderSettings } from '../types';
+import { listProviders } from '../services/providers';
+
+interface SettingsPanelProps {
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+}
+
+const inputClassName = "w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500/20 placeholder:text-slate-400";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ providerSettings, onProviderSettingsChange }) => {
+  const update = (patch: Partial<ProviderSettings>) => onProviderSettingsChange({ ...providerSettings, ...patch });
+  const isGemini = providerSettings.providerId === 'gemini';
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 space-y-4">
+      <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+        <Cpu className="w-4 h-4" />
+        Provedor de IA
+      </h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="col-span-2 space-y-1">
+          <span className="text-xs font-medium text-slate-500">Backend</span>
+          <select
+            value={providerSettings.providerId}
+            onChange={(e) => update({ providerId: e.target.value })}
+            className={inputClassName}
+          >
+            {listProviders().map(({ id, label }) => (
+              <option key={id} value={id}>{label}</option>
+            ))}
+          </select>
+        </label>
+
+        {isGemini && (
+          <>
+            <label className="col-span-2 space-y-1">
+              <span className="text-xs font-medium text-slate-500">Chave de API</span>
+              <input
+                type="password"
+                placeholder="Usa API_KEY do ambiente se vazio"
+                value={providerSettings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-slate-500">Modelo de resumo</span>
+              <input
+                type="text"
+                placeholder="Padrão"
+                value={providerSettings.summaryModel}
+                onChange={(e) => update({ summaryModel: e.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-slate-500">Modelo de voz</span>
+              <input
+                type="text"
+                placeholder="Padrão"
+                value={providerSettings.ttsModel}
+                onChange={(e) => update({ ttsModel: e.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </label>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { ArticleProgress } from '../types';
+
+interface SummaryProgressProps {
+  articles: ArticleProgress[];
+  composing: boolean;
+}
+
+// Per-article state of a summarization: long articles count their
+// condensed excerpts, the rest are read as they are
+export const SummaryProgress: React.FC<SummaryProgressProps> = ({ articles, composing }) => (
+  <div className="space-y-3">
+    <ul className="text-left text-xs space-y-1.5 max-h-48 overflow-y-auto">
+      {articles.map((article, i) => {
+        const done = article.ready >= article.total;
+        return (
+          <li key={i} className="flex items-center gap-2">
+            {done
+              ? <CheckCircle2 className="w-3.5 h-3.5 flex-shrink-0 text-emerald-500" />
+              : <div className="w-3.5 h-3.5 flex-shrink-0 border-2 border-indigo-600 rounded-full border-t-transparent animate-spin" />}
+            <span className={`flex-1 truncate ${done ? 'text-slate-500' : 'text-slate-800 font-medium'}`}>{article.title}</span>
+            {article.total > 0 && (
+              <span className="font-mono text-slate-400">{article.ready}/{article.total}</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+    <p className="text-slate-500 text-sm">
+      {composing ? 'Escrevendo o roteiro a partir dos artigos.' : 'Condensando os artigos longos em notas.'}
+    </p>
+  </div>
+);
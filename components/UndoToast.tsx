@@ -0,0 +1,37 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 8000 }) => {
+  // Restarts whenever a new action replaces the message
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [message, durationMs]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 pl-4 pr-2 py-2 bg-slate-900 text-white rounded-xl shadow-xl text-sm animate-in fade-in slide-in-from-bottom-4"
+    >
+      <span>{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1.5 px-2 py-1 font-semibold text-indigo-300 hover:text-indigo-200 rounded-lg hover:bg-white/10"
+      >
+        <Undo2 className="w-4 h-4" />
+        Desfazer
+      </button>
+      <button onClick={onDismiss} className="p-1 text-slate-400 hover:text-white rounded-lg" aria-label="Fechar">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { BarChart3, Database, Trash2 } from 'lucide-react';
+import { UsageBudget, UsageRecord } from '../types';
+import { CacheStats } from '../services/cacheService';
+import { UsageTotals, dailyUsage, formatCost, startOfDay, startOfMonth, sumUsage, usageSince } from '../services/usageService';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+  onClear: () => void;
+  cacheStats: CacheStats | null;
+  onClearCache: () => void;
+}
+
+const inputClassName = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+const TotalsCard: React.FC<{ label: string; totals: UsageTotals; limit: number }> = ({ label, totals, limit }) => (
+  <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 space-y-2">
+    <div className="flex items-baseline justify-between">
+      <span className="text-xs font-semibold text-slate-500">{label}</span>
+      <span className="text-lg font-bold text-slate-800">{formatCost(totals.cost)}</span>
+    </div>
+    {limit > 0 && (
+      <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden" title={`Limite: ${formatCost(limit)}`}>
+        <div
+          className={`h-full rounded-full ${totals.cost > limit ? 'bg-red-500' : 'bg-indigo-600'}`}
+          style={{ width: `${Math.min((totals.cost / limit) * 100, 100)}%` }}
+        />
+      </div>
+    )}
+    <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-[11px] text-slate-500">
+      <dt>Chamadas</dt><dd className="text-right font-mono">{totals.calls}</dd>
+      <dt>Tokens (entrada/saída)</dt><dd className="text-right font-mono">{totals.inputTokens.toLocaleString()} / {totals.outputTokens.toLocaleString()}</dd>
+      <dt>Caracteres sintetizados</dt><dd className="text-right font-mono">{totals.characters.toLocaleString()}</dd>
+      <dt>Áudio gerado</dt><dd className="text-right font-mono">{(totals.audioSeconds / 60).toFixed(1)} min</dd>
+      <dt>Latência média</dt><dd className="text-right font-mono">{totals.calls ? Math.round(totals.latencyMs / totals.calls) : 0} ms</dd>
+    </dl>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ records, budget, onBudgetChange, onClear, cacheStats, onClearCache }) => {
+  const update = (patch: Partial<UsageBudget>) => onBudgetChange({ ...budget, ...patch });
+
+  const { today, month, days } = useMemo(() => {
+    const now = Date.now();
+    return {
+      today: sumUsage(usageSince(records, startOfDay(now))),
+      month: sumUsage(usageSince(records, startOfMonth(now))),
+      days: dailyUsage(records, now),
+    };
+  }, [records]);
+
+  const maxDayCost = Math.max(...days.map(d => d.totals.cost), 0);
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+          <BarChart3 className="w-4 h-4" />
+          Uso e Custos
+        </h2>
+        {records.length > 0 && (
+          <button
+            onClick={onClear}
+            className="text-xs font-medium text-slate-400 hover:text-red-600 flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-red-50 transition-all"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Limpar histórico
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <TotalsCard label="Hoje" totals={today} limit={budget.dailyLimit} />
+        <TotalsCard label="Este mês" totals={month} limit={budget.monthlyLimit} />
+      </div>
+
+      {days.length > 0 && (
+        <div className="flex items-end gap-1 h-16" aria-label="Custo por dia neste mês">
+          {days.map(({ day, totals }) => (
+            <div
+              key={day}
+              className="flex-1 max-w-4 bg-indigo-200 hover:bg-indigo-400 rounded-t transition-colors"
+              style={{ height: `${maxDayCost > 0 ? Math.max((totals.cost / maxDayCost) * 100, 4) : 4}%` }}
+              title={`${new Date(day).toLocaleDateString()}: ${formatCost(totals.cost)} em ${totals.calls} chamadas`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">Limite diário (US$)</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Sem limite"
+            value={budget.dailyLimit || ''}
+            onChange={(e) => update({ dailyLimit: Math.max(0, Number(e.target.value)) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">Limite mensal (US$)</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Sem limite"
+            value={budget.monthlyLimit || ''}
+            onChange={(e) => update({ monthlyLimit: Math.max(0, Number(e.target.value)) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">Ao exceder</span>
+          <select
+            value={budget.action}
+            onChange={(e) => update({ action: e.target.value as UsageBudget['action'] })}
+            className={inputClassName}
+          >
+            <option value="warn">Avisar</option>
+            <option value="block">Bloquear</option>
+          </select>
+        </label>
+      </div>
+
+      {cacheStats && (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <Database className="w-3.5 h-3.5 text-slate-400" />
+          <span className="mr-auto">
+            Cache local: {cacheStats.summary.entries} roteiros, {cacheStats.notes.entries} notas, {cacheStats.audio.entries} trechos de áudio
+            ({((cacheStats.summary.bytes + cacheStats.notes.bytes + cacheStats.audio.bytes) / (1024 * 1024)).toFixed(1)} MB)
+          </span>
+          <button
+            onClick={onClearCache}
+            disabled={cacheStats.summary.entries + cacheStats.notes.entries + cacheStats.audio.entries === 0}
+            className="font-medium text-slate-400 hover:text-red-600 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            Limpar cache
+          </button>
+        </div>
+      )}
+
+      <p className="text-[11px] text-slate-400">
+        Custos estimados a partir dos tokens informados pela API e de uma tabela local de preços; modelos desconhecidos contam como gratuitos.
+      </p>
+    </section>
+  );
+};
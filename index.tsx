@@ -12,4 +12,13 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Installable PWA: cache the app shell so the app opens offline
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/service-worker.js').catch(error => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
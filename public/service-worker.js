@@ -0,0 +1,50 @@
+// App shell cache. Briefings (script and audio) already live in IndexedDB,
+// which is available offline without help from the service worker; this
+// only makes sure the page, its scripts and the CDN modules load offline.
+
+const CACHE_NAME = 'briefing-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Third-party hosts the page loads code and styles from
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, so a deploy is picked up on the next load; the cache is the
+// offline fallback. Navigations fall back to the cached shell.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const cacheable = url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname);
+  if (!cacheable) return; // e.g. AI API calls and proxied article fetches
+
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        if (response.ok || response.type === 'opaque') {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+        if (request.mode === 'navigate') return caches.match('/');
+        throw new Error(`Offline and not cached: ${request.url}`);
+      })
+  );
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { ScriptSection } from './chapterService';
+import { extractSourceTags, groundSentences } from './attributionService';
+
+const articles: Article[] = [
+  { id: 'a1', title: 'Chuvas em Santos', content: 'Choveu 120 milímetros em Santos.', timestamp: 0 },
+  { id: 'a2', title: 'Dólar em queda', content: 'O dólar caiu para 5,10 reais.', timestamp: 0 },
+];
+
+const ground = (sections: ScriptSection[]) => {
+  const extracted = extractSourceTags(sections, articles.length);
+  return groundSentences(extracted.sections, extracted.cited, articles);
+};
+
+describe('groundSentences', () => {
+  it('attributes tagged sentences and leaves untagged ones unattributed', () => {
+    const claims = ground([
+      { articleIndex: null, text: 'Bom dia.' },
+      { articleIndex: 0, text: 'Choveu 120 milímetros em Santos. {{1}} Vamos ao próximo assunto. E o dólar caiu. {{2}}' },
+    ]);
+    expect(claims.map(c => [c.text, c.sources])).toEqual([
+      ['Bom dia.', []],
+      ['Choveu 120 milímetros em Santos.', ['a1']],
+      ['Vamos ao próximo assunto.', []],
+      ['E o dólar caiu.', ['a2']],
+    ]);
+  });
+
+  it('falls back to the chapter when the model wrote no tags at all', () => {
+    const claims = ground([
+      { articleIndex: null, text: 'Bom dia.' },
+      { articleIndex: 1, text: 'O dólar caiu para 5,10 reais. Fim.' },
+    ]);
+    expect(claims.map(c => c.sources)).toEqual([[], ['a2'], ['a2']]);
+  });
+
+  it('falls back to the chapter for a sentence rewritten in review', () => {
+    const { cited } = extractSourceTags([{ articleIndex: 0, text: 'Choveu em Santos. {{1}} Mais nada. {{1}}' }], articles.length);
+    const claims = groundSentences([{ articleIndex: 0, text: 'Choveu forte em Santos. Mais nada.' }], cited, articles);
+    expect(claims.map(c => c.sources)).toEqual([['a1'], ['a1']]);
+  });
+
+  it('flags names and numbers no source mentions', () => {
+    const [claim] = ground([{ articleIndex: 0, text: 'Segundo Fulano, choveu 300 milímetros em Santos. {{1}}' }]);
+    expect(claim.unsupported).toEqual(['Fulano', '300']);
+  });
+});
@@ -0,0 +1,151 @@
+import { Article, TranscriptSegment } from "../types";
+import { ScriptSection } from "./chapterService";
+import { DIALOGUE_HOSTS, parseDialogue } from "./dialogueService";
+import { splitSentences } from "./transcriptService";
+
+// The summarizer ends each sentence with the articles it draws on, as a
+// source tag such as {{2}} or {{1,3}} (see buildSummaryPrompt). Like
+// chapter markers, tags are never spoken: they are stripped from the script
+// and kept per sentence. A local grounding check then flags sentences whose
+// names and numbers appear in none of the source articles.
+
+export const sourceTag = (articleNumbers: number[]) => `{{${articleNumbers.join(',')}}}`;
+
+const TAG_PATTERN = /\s*\{\{([\d,\s]*)\}\}/g;
+// Tags after the closing punctuation, moved inside so the sentence keeps them
+const TRAILING_TAGS_PATTERN = /([.!?…]["'”’)]*)((?:\s*\{\{[\d,\s]*\}\})+)/g;
+
+const stripTags = (text: string) => text.replace(TAG_PATTERN, '');
+
+// Sentences as the transcript splits them: dialogue without speaker labels
+const spokenSentences = (text: string) => {
+  const turns = parseDialogue(text);
+  return turns.length > 0 ? turns.flatMap(t => splitSentences(t.text)) : splitSentences(text);
+};
+
+export interface CitedSentence {
+  text: string;
+  // 0-based article indices; undefined when the sentence carried no tag
+  articleIndices?: number[];
+}
+
+export const extractSourceTags = (
+  sections: ScriptSection[],
+  articleCount: number
+): { sections: ScriptSection[]; cited: CitedSentence[] } => {
+  const cited: CitedSentence[] = [];
+  const clean = sections.map(section => {
+    const tagged = section.text.replace(TRAILING_TAGS_PATTERN, '$2$1');
+    spokenSentences(tagged).forEach(sentence => {
+      const tags = Array.from(sentence.matchAll(TAG_PATTERN));
+      const indices = tags
+        .flatMap(([, list]) => list.split(',').map(Number))
+        .filter(n => Number.isInteger(n) && n >= 1 && n <= articleCount)
+        .map(n => n - 1);
+      cited.push({
+        text: stripTags(sentence).trim(),
+        articleIndices: tags.length > 0 ? Array.from(new Set(indices)) : undefined,
+      });
+    });
+    return { ...section, text: stripTags(tagged) };
+  });
+  return { sections: clean, cited };
+};
+
+// Finds sentences of `items` in order. Edits in the review step or
+// re-chunking may add, drop or change sentences, so a miss only skips
+// that one sentence.
+const LOOKAHEAD = 8;
+const alignByText = <T extends { text: string }>(items: T[]) => {
+  const key = (text: string) => text.replace(/\s+/g, ' ').trim();
+  let cursor = 0;
+  return (text: string): T | undefined => {
+    const target = key(text);
+    for (let i = cursor; i < Math.min(items.length, cursor + LOOKAHEAD); i++) {
+      if (key(items[i].text) === target) {
+        cursor = i + 1;
+        return items[i];
+      }
+    }
+    return undefined;
+  };
+};
+
+// --- Grounding check ---
+
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+const WORD_SPLIT = /[^\p{L}\p{N}]+/u;
+const NUMBER_PATTERN = /\d(?:[\d.,]*\d)?/g;
+const digitsOf = (number: string) => number.replace(/\D/g, '');
+// One-digit numbers are often spelled out in the sources
+const MIN_NUMBER_DIGITS = 2;
+const HOST_NAMES = new Set(DIALOGUE_HOSTS.map(fold));
+
+interface SourceVocabulary {
+  words: Set<string>;
+  // Digits only, so "1.500" and "1,500" match
+  numbers: Set<string>;
+}
+
+const vocabularyOf = (articles: Article[]): SourceVocabulary => {
+  const text = articles.map(a => `${a.title}\n${a.content}`).join('\n');
+  return {
+    words: new Set(fold(text).split(WORD_SPLIT)),
+    numbers: new Set((text.match(NUMBER_PATTERN) ?? []).map(digitsOf)),
+  };
+};
+
+// Names (capitalized words past the first) and numbers no source mentions
+export const findUnsupported = (sentence: string, vocabulary: SourceVocabulary): string[] => {
+  const names = sentence
+    .split(WORD_SPLIT)
+    .filter(Boolean)
+    .slice(1)
+    .filter(word => word.length > 1 && /^\p{Lu}/u.test(word) && !HOST_NAMES.has(fold(word)) && !vocabulary.words.has(fold(word)));
+  const numbers = (sentence.match(NUMBER_PATTERN) ?? [])
+    .filter(n => digitsOf(n).length >= MIN_NUMBER_DIGITS && !vocabulary.numbers.has(digitsOf(n)));
+  return Array.from(new Set([...names, ...numbers]));
+};
+
+export interface SentenceClaim {
+  text: string;
+  // Article ids the sentence is attributed to
+  sources: string[];
+  unsupported: string[];
+}
+
+// Attributes every sentence of the final script by its tag. An untagged
+// sentence (greeting, transition, or a claim the summarizer didn't source)
+// stays unattributed. The chapter stands in only where tags can't tell: a
+// sentence rewritten in review, or a script from a model that wrote no tags.
+export const groundSentences = (sections: ScriptSection[], cited: CitedSentence[], articles: Article[]): SentenceClaim[] => {
+  const vocabulary = vocabularyOf(articles);
+  const findCited = alignByText(cited);
+  const tagsUsed = cited.some(c => c.articleIndices !== undefined);
+  return sections.flatMap(section => {
+    const chapterSources = section.articleIndex !== null ? [section.articleIndex] : [];
+    return spokenSentences(section.text).map(text => {
+      const match = findCited(text);
+      const indices = match && tagsUsed ? match.articleIndices ?? [] : chapterSources;
+      return {
+        text,
+        sources: indices.map(i => articles[i]?.id).filter((id): id is string => Boolean(id)),
+        unsupported: findUnsupported(text, vocabulary),
+      };
+    });
+  });
+};
+
+export const annotateSegments = (segments: TranscriptSegment[], claims: SentenceClaim[]): TranscriptSegment[] => {
+  if (claims.length === 0) return segments;
+  const findClaim = alignByText(claims);
+  return segments.map(segment => {
+    const claim = findClaim(segment.text);
+    if (!claim) return segment;
+    return {
+      ...segment,
+      ...(claim.sources.length > 0 ? { sources: claim.sources } : {}),
+      ...(claim.unsupported.length > 0 ? { unsupported: claim.unsupported } : {}),
+    };
+  });
+};
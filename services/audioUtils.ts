@@ -0,0 +1,80 @@
+// --- PCM Decoding ---
+
+export function decodeBase64(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Converts interleaved 16-bit PCM into an AudioBuffer
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  // Respect the view's offset: stored or sliced arrays may not start at byte 0
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+// --- Joining ---
+
+// Joins raw PCM chunks into one contiguous byte array
+export const concatPcm = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.byteLength, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return result;
+};
+
+// Joins same-rate buffers end to end (e.g. streamed TTS chunks before export)
+export const concatAudioBuffers = (ctx: BaseAudioContext, buffers: AudioBuffer[]): AudioBuffer => {
+  if (buffers.length === 1) return buffers[0];
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const length = buffers.reduce((sum, b) => sum + b.length, 0);
+  const result = ctx.createBuffer(numChannels, length, buffers[0].sampleRate);
+
+  let offset = 0;
+  buffers.forEach(buffer => {
+    for (let c = 0; c < numChannels; c++) {
+      // Upmix mono chunks by repeating their only channel
+      result.getChannelData(c).set(buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1)), offset);
+    }
+    offset += buffer.length;
+  });
+  return result;
+};
+
+// --- Analysis ---
+
+// Peak level per `binSeconds` of audio, across channels (waveform overviews)
+export const peakEnvelope = (buffer: AudioBuffer, binSeconds: number): Float32Array => {
+  const binLength = Math.max(1, Math.round(binSeconds * buffer.sampleRate));
+  const peaks = new Float32Array(Math.ceil(buffer.length / binLength));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const bin = Math.floor(i / binLength);
+      const value = Math.abs(data[i]);
+      if (value > peaks[bin]) peaks[bin] = value;
+    }
+  }
+  return peaks;
+};
@@ -0,0 +1,66 @@
+import { BriefingOptions, ProviderSettings, TTSVoice, UsageRecord } from "../types";
+import { SummaryContext } from "./promptService";
+
+// A backend able to turn articles into a spoken briefing. Adapters wrap a
+// vendor SDK (or a local fake) behind these two calls, stop when `signal`
+// aborts, and throw BriefingErrors (see errors.ts) so failures can be
+// classified and retried.
+export interface SpeakerVoice {
+  speaker: string;
+  voice: TTSVoice;
+}
+
+// What an adapter knows about one of its API calls; the app adds ids,
+// timestamps and cost estimates
+export type ProviderUsage = Pick<
+  UsageRecord,
+  'model' | 'operation' | 'inputTokens' | 'outputTokens' | 'characters' | 'audioSeconds' | 'latencyMs'
+>;
+
+export interface ProviderHooks {
+  onUsage?: (usage: ProviderUsage) => void;
+}
+
+export interface BriefingProvider {
+  id: string;
+  // Resolved model names, for cost estimates
+  models: { summary: string; tts: string };
+  // 16-bit mono PCM rate of everything `synthesize` returns
+  sampleRate: number;
+  // Whether synthesizeDialogue is available; dialogue briefings fall back
+  // to a monologue script when it isn't
+  supportsMultiSpeaker: boolean;
+  // `context` carries updates and story groups (see buildSummaryPrompt)
+  summarize(articles: string[], options: BriefingOptions, signal?: AbortSignal, context?: SummaryContext): Promise<string>;
+  // Shortens one piece of a long article into notes for the final script
+  condense(text: string, targetWords: number, signal?: AbortSignal): Promise<string>;
+  // Writes a new version of one paragraph of `script` (review step)
+  rewrite(paragraph: string, script: string, options: BriefingOptions, signal?: AbortSignal): Promise<string>;
+  synthesize(text: string, voice: TTSVoice, signal?: AbortSignal): Promise<Uint8Array>;
+  // `text` is a "Speaker: line" dialogue using the given speaker names
+  synthesizeDialogue?(text: string, speakers: SpeakerVoice[], signal?: AbortSignal): Promise<Uint8Array>;
+}
+
+export type ProviderFactory = (settings: ProviderSettings, hooks: ProviderHooks) => BriefingProvider;
+
+interface ProviderRegistration {
+  label: string;
+  create: ProviderFactory;
+}
+
+const registry = new Map<string, ProviderRegistration>();
+
+export const registerProvider = (id: string, label: string, create: ProviderFactory) => {
+  registry.set(id, { label, create });
+};
+
+export const listProviders = () =>
+  Array.from(registry, ([id, { label }]) => ({ id, label }));
+
+export const createProvider = (settings: ProviderSettings, hooks: ProviderHooks = {}): BriefingProvider => {
+  const registration = registry.get(settings.providerId);
+  if (!registration) {
+    throw new Error(`Unknown briefing provider: ${settings.providerId}`);
+  }
+  return registration.create(settings, hooks);
+};
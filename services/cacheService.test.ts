@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createContentCache } from './cacheService';
+import { createMemoryBackend } from './storageService';
+
+// A clock that ticks on every read, so each write is more recent than the last
+const createTicker = () => {
+  let now = 0;
+  return () => ++now;
+};
+
+describe('createContentCache', () => {
+  it('evicts the least recently used entries of a kind past its budget', async () => {
+    const cache = createContentCache(createMemoryBackend(), { summary: 20, notes: 20, audio: 20 }, createTicker());
+    await cache.put('audio', 'a', new Uint8Array(8));
+    await cache.put('audio', 'b', new Uint8Array(8));
+    await cache.get('a');
+    await cache.put('audio', 'c', new Uint8Array(8));
+
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBeDefined();
+  });
+
+  it('keeps notes from evicting scripts', async () => {
+    const cache = createContentCache(createMemoryBackend(), { summary: 20, notes: 20, audio: 20 }, createTicker());
+    await cache.put('summary', 'script', 'roteiro');
+    for (const key of ['n1', 'n2', 'n3']) await cache.put('notes', key, 'notas');
+
+    expect(await cache.get('script')).toBe('roteiro');
+    expect(await cache.stats()).toEqual({
+      summary: { entries: 1, bytes: 18 },
+      notes: { entries: 1, bytes: 14 },
+      audio: { entries: 0, bytes: 0 },
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { StorageBackend, storageBackend } from "./storageService";
+
+// Content-addressed cache for generated scripts and speech. Keys hash
+// everything that affects the output (inputs, options, model), so unchanged
+// input is served locally and any relevant change misses naturally.
+// Values and their bookkeeping live in separate stores, so eviction never
+// has to load audio.
+
+// 'notes' are the condensed excerpts of long articles (map step), kept apart
+// so a long queue's notes never evict finished scripts
+export type CacheKind = 'summary' | 'notes' | 'audio';
+
+interface CacheIndexEntry {
+  key: string;
+  kind: CacheKind;
+  size: number; // bytes
+  lastUsed: number;
+}
+
+// Per-kind budgets; least recently used entries are evicted beyond them
+export const CACHE_LIMITS: Record<CacheKind, number> = {
+  summary: 2 * 1024 * 1024,
+  notes: 2 * 1024 * 1024,
+  audio: 150 * 1024 * 1024,
+};
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+// 53-bit string hash for insecure contexts, where crypto.subtle is missing
+const fallbackHash = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+export const hashKey = async (...parts: unknown[]): Promise<string> => {
+  const text = JSON.stringify(parts);
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+};
+
+// JSON-ish size of a value, for values that aren't raw bytes
+export const sizeOf = (value: unknown) =>
+  value instanceof Uint8Array ? value.byteLength : JSON.stringify(value).length * 2;
+
+export const createContentCache = (
+  backend: StorageBackend,
+  limits: Record<CacheKind, number> = CACHE_LIMITS,
+  now: () => number = Date.now
+) => {
+  const evict = async (kind: CacheKind) => {
+    const entries = (await backend.getAll<CacheIndexEntry>('cacheIndex'))
+      .filter(e => e.kind === kind)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+    for (const entry of entries) {
+      if (total <= limits[kind]) break;
+      await backend.remove('cache', entry.key);
+      await backend.remove('cacheIndex', entry.key);
+      total -= entry.size;
+    }
+  };
+
+  return {
+    get: async <T>(key: string): Promise<T | undefined> => {
+      const entry = await backend.get<CacheIndexEntry>('cacheIndex', key);
+      if (!entry) return undefined;
+      const value = await backend.get<T>('cache', key);
+      if (value === undefined) {
+        await backend.remove('cacheIndex', key);
+        return undefined;
+      }
+      await backend.put('cacheIndex', key, { ...entry, lastUsed: now() });
+      return value;
+    },
+
+    put: async <T>(kind: CacheKind, key: string, value: T) => {
+      const size = sizeOf(value);
+      // Never worth caching something that would evict everything else
+      if (size > limits[kind]) return;
+      await backend.put('cache', key, value);
+      await backend.put('cacheIndex', key, { key, kind, size, lastUsed: now() });
+      await evict(kind);
+    },
+
+    stats: async () => {
+      const entries = await backend.getAll<CacheIndexEntry>('cacheIndex');
+      const byKind = (kind: CacheKind) => {
+        const matching = entries.filter(e => e.kind === kind);
+        return { entries: matching.length, bytes: matching.reduce((sum, e) => sum + e.size, 0) };
+      };
+      return { summary: byKind('summary'), notes: byKind('notes'), audio: byKind('audio') };
+    },
+
+    clear: async () => {
+      const entries = await backend.getAll<CacheIndexEntry>('cacheIndex');
+      await Promise.all(entries.flatMap(e => [backend.remove('cache', e.key), backend.remove('cacheIndex', e.key)]));
+    },
+  };
+};
+
+export type ContentCache = ReturnType<typeof createContentCache>;
+export type CacheStats = Awaited<ReturnType<ContentCache['stats']>>;
+
+export const contentCache: ContentCache = createContentCache(storageBackend);
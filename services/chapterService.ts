@@ -0,0 +1,112 @@
+import { Chapter } from "../types";
+import { chunkScript } from "./transcriptService";
+import { chunkDialogue } from "./dialogueService";
+
+// The summarizer opens each story with a marker line naming the article it
+// covers (see buildSummaryPrompt). Markers are never spoken: they are parsed
+// into sections, and sections are chunked separately so every chapter starts
+// exactly on a chunk boundary, where its start time is known from real audio.
+
+export const sectionMarker = (articleNumber: number) => `[[ARTICLE ${articleNumber}]]`;
+
+const MARKER_PATTERN = /^\s*\[\[ARTICLE\s+(\d+)\]\]\s*$/i;
+
+export interface ScriptSection {
+  // Index into the briefing's article list; null for the opening
+  articleIndex: number | null;
+  text: string;
+}
+
+export const parseSections = (script: string, articleCount: number): ScriptSection[] => {
+  const sections: ScriptSection[] = [];
+  let current: ScriptSection = { articleIndex: null, text: '' };
+
+  const flush = () => {
+    const text = current.text.trim();
+    if (!text) return;
+    const previous = sections[sections.length - 1];
+    // A repeated marker for the same story continues that chapter
+    if (previous && previous.articleIndex === current.articleIndex) {
+      previous.text = `${previous.text}\n\n${text}`;
+    } else {
+      sections.push({ articleIndex: current.articleIndex, text });
+    }
+  };
+
+  script.split('\n').forEach(line => {
+    const match = line.match(MARKER_PATTERN);
+    if (!match) {
+      current.text += `${line}\n`;
+      return;
+    }
+    flush();
+    const index = Number(match[1]) - 1;
+    // Out-of-range numbers are treated as a continuation of the current section
+    current = { articleIndex: index >= 0 && index < articleCount ? index : current.articleIndex, text: '' };
+  });
+  flush();
+
+  return sections;
+};
+
+// The script as spoken and shown in the transcript
+export const sectionsToScript = (sections: ScriptSection[]) =>
+  sections.map(s => s.text).join('\n\n');
+
+// Where each chapter starts in the chunk list, before any audio exists
+export interface ChapterPlan {
+  firstChunk: number;
+  title: string;
+  articleId?: string;
+}
+
+export const OPENING_CHAPTER_TITLE = 'Abertura';
+// Opening of an update appended to an existing briefing
+export const UPDATE_CHAPTER_TITLE = 'Novidades';
+
+// Chunks each section on its own; only the very first chunk is kept short
+// for a fast start
+export const chunkSections = (
+  sections: ScriptSection[],
+  articles: { id: string; title: string }[],
+  dialogue: boolean,
+  openingTitle = OPENING_CHAPTER_TITLE
+): { chunks: string[]; chapters: ChapterPlan[] } => {
+  const chunks: string[] = [];
+  const chapters: ChapterPlan[] = [];
+
+  sections.forEach(section => {
+    const options = chunks.length === 0 ? {} : { firstChunkChars: 1200 };
+    const sectionChunks = dialogue ? chunkDialogue(section.text, options) : chunkScript(section.text, options);
+    if (sectionChunks.length === 0) return;
+
+    const article = section.articleIndex !== null ? articles[section.articleIndex] : undefined;
+    chapters.push({
+      firstChunk: chunks.length,
+      title: article?.title ?? openingTitle,
+      articleId: article?.id,
+    });
+    chunks.push(...sectionChunks);
+  });
+
+  return { chunks, chapters };
+};
+
+// Resolves chapter start times from the durations of the chunks synthesized
+// so far; chapters whose start isn't known yet are left out
+export const timeChapters = (plan: ChapterPlan[], durations: number[]): Chapter[] => {
+  const offsets = [0];
+  durations.forEach((d, i) => offsets.push(offsets[i] + d));
+
+  return plan
+    .filter(p => p.firstChunk < offsets.length)
+    .map(({ firstChunk, title, articleId }) => ({ title, start: offsets[firstChunk], articleId }));
+};
+
+// Index of the chapter playing at `position`, or -1 before the first one
+export const findChapterIndex = (chapters: Chapter[], position: number) => {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (position >= chapters[i].start) return i;
+  }
+  return -1;
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Article } from '../types';
+import { condenseArticles, estimatePromptChars, planCondensing } from './condenseService';
+import { formatArticle } from './promptService';
+
+// About 55 characters a sentence, numbered so order and loss show up;
+// paragraphEvery = Infinity gives one long paragraph
+const prose = (sentences: number, paragraphEvery = 10) =>
+  Array.from({ length: sentences }, (_, i) =>
+    `Frase número ${i} traz um pouco de texto de enchimento.${(i + 1) % paragraphEvery === 0 ? '\n\n' : ' '}`
+  ).join('').trim();
+
+const article = (id: string, content: string): Article => ({ id, title: `Título ${id}`, content, timestamp: 0 });
+
+describe('planCondensing', () => {
+  it('leaves a queue that fits the budget alone', () => {
+    const plan = planCondensing([article('a', prose(20)), article('b', prose(20))]);
+    expect(plan).toEqual({ excerpts: [[], []], noteWords: [0, 0] });
+  });
+
+  it('fills excerpts up to 12k characters, breaking only between sentences', () => {
+    const content = prose(700, Infinity);
+    const { excerpts } = planCondensing([article('long', content)], 1_000);
+
+    expect(excerpts[0].length).toBe(4);
+    excerpts[0].forEach((excerpt, i) => {
+      expect(excerpt.length).toBeLessThanOrEqual(12_000);
+      if (i < 3) expect(excerpt.length).toBeGreaterThan(11_900);
+      expect(excerpt).toMatch(/^Frase número \d+ .*enchimento\.$/s);
+    });
+    // Nothing lost, duplicated or reordered across the boundaries
+    expect(excerpts[0].join(' ')).toBe(content);
+  });
+
+  it('closes an excerpt at the first paragraph break past half its size', () => {
+    const content = prose(700);
+    const { excerpts } = planCondensing([article('long', content)], 1_000);
+
+    expect(excerpts[0].length).toBe(7);
+    excerpts[0].slice(0, -1).forEach(excerpt => {
+      expect(excerpt.length).toBeGreaterThanOrEqual(6_000);
+      expect(excerpt.length).toBeLessThanOrEqual(12_000);
+    });
+    expect(excerpts[0].join('\n\n')).toBe(content);
+  });
+
+  it('keeps an article under the excerpt size in one piece', () => {
+    const content = prose(200, Infinity);
+    expect(content.length).toBeLessThan(12_000);
+    expect(planCondensing([article('a', content)], 100).excerpts).toEqual([[content]]);
+  });
+
+  it('keeps short articles whole and splits the rest of the budget among the long ones', () => {
+    const short = article('short', prose(2));
+    const long = article('long', prose(700, Infinity));
+    const medium = article('medium', prose(100));
+    const budget = 2_000;
+
+    const plan = planCondensing([short, long, medium], budget);
+    expect(plan.excerpts[0]).toEqual([]);
+    expect(plan.noteWords[0]).toBe(0);
+    expect(plan.excerpts[1].length).toBe(4);
+    expect(plan.excerpts[2].length).toBe(1);
+
+    // The long articles' share, in words, divided across each one's excerpts
+    const shortTokens = Math.ceil(formatArticle(short).length / 4);
+    const longShareWords = ((budget - shortTokens) / 2) * 0.7;
+    expect(plan.noteWords[1]).toBe(Math.floor(longShareWords / 4));
+    expect(plan.noteWords[2]).toBe(Math.floor(longShareWords));
+  });
+
+  it('never asks for fewer than 60 words of notes per excerpt', () => {
+    const plan = planCondensing([article('a', prose(700)), article('b', prose(700))], 100);
+    expect(plan.noteWords).toEqual([60, 60]);
+  });
+});
+
+describe('estimatePromptChars', () => {
+  it('counts whole articles as formatted and excerpts plus their notes for condensed ones', () => {
+    const short = article('short', prose(2));
+    const long = article('long', prose(700));
+    const plan = planCondensing([short, long], 2_000);
+    const excerptChars = plan.excerpts[1].reduce((sum, e) => sum + e.length, 0);
+
+    expect(estimatePromptChars([short, long], plan)).toBe(
+      formatArticle(short).length + excerptChars + plan.excerpts[1].length * plan.noteWords[1] * 6
+    );
+  });
+});
+
+describe('condenseArticles', () => {
+  it('replaces long contents with their notes in excerpt order', async () => {
+    const short = article('short', prose(2));
+    const long = article('long', prose(700));
+    const plan = planCondensing([short, long], 2_000);
+    const condense = vi.fn(async (text: string, targetWords: number) => `notas(${plan.excerpts[1].indexOf(text)}, ${targetWords})`);
+
+    const result = await condenseArticles([short, long], plan, condense);
+    expect(result[0]).toBe(short);
+    const target = plan.noteWords[1];
+    expect(result[1].content).toBe(plan.excerpts[1].map((_, j) => `notas(${j}, ${target})`).join('\n\n'));
+    expect(condense).toHaveBeenCalledTimes(plan.excerpts[1].length);
+  });
+
+  it('stops at the first failure', async () => {
+    const plan = planCondensing([article('a', prose(700)), article('b', prose(700))], 100);
+    const condense = vi.fn(async () => {
+      throw new Error('falhou');
+    });
+
+    await expect(condenseArticles([article('a', prose(700)), article('b', prose(700))], plan, condense, { concurrency: 1 }))
+      .rejects.toThrow('falhou');
+    expect(condense).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { Article, ArticleProgress } from "../types";
+import { chunkScript } from "./transcriptService";
+import { formatArticle } from "./promptService";
+import { estimateTokens } from "./usageService";
+
+// Map-reduce summarization. While the queue fits a token budget, all
+// articles go to the summarizer in one prompt. Past it, long articles are
+// first split into excerpts and each excerpt is condensed into notes (map);
+// the script is then written from the notes as usual (reduce).
+
+// Room for article text in the final prompt, well inside the model's context
+export const PROMPT_TOKEN_BUDGET = 12_000;
+// Excerpt size for one condense call
+const EXCERPT_CHARS = 12_000;
+const MIN_NOTE_WORDS = 60;
+// Rough rule of thumb for news prose
+const WORDS_PER_TOKEN = 0.7;
+const CHARS_PER_WORD = 6;
+
+export interface CondensePlan {
+  // Excerpts per article; empty for articles used as they are
+  excerpts: string[][];
+  // Length budget for the notes on each of the article's excerpts
+  noteWords: number[];
+}
+
+export const planCondensing = (articles: Article[], budgetTokens = PROMPT_TOKEN_BUDGET): CondensePlan => {
+  const tokens = articles.map(a => estimateTokens(formatArticle(a)));
+  const total = tokens.reduce((sum, t) => sum + t, 0);
+  if (total <= budgetTokens) {
+    return { excerpts: articles.map(() => []), noteWords: articles.map(() => 0) };
+  }
+
+  // Short articles keep their full text; long ones share what's left
+  const fairShare = budgetTokens / articles.length;
+  const isLong = tokens.map(t => t > fairShare);
+  const shortTokens = tokens.reduce((sum, t, i) => (isLong[i] ? sum : sum + t), 0);
+  const longShare = (budgetTokens - shortTokens) / isLong.filter(Boolean).length;
+
+  const excerpts = articles.map((a, i) =>
+    isLong[i] ? chunkScript(a.content, { firstChunkChars: EXCERPT_CHARS, maxChunkChars: EXCERPT_CHARS }) : []
+  );
+  const noteWords = excerpts.map(e =>
+    e.length > 0 ? Math.max(MIN_NOTE_WORDS, Math.floor((longShare * WORDS_PER_TOKEN) / e.length)) : 0
+  );
+  return { excerpts, noteWords };
+};
+
+// Prompt characters the whole plan will send, for cost estimates
+export const estimatePromptChars = (articles: Article[], plan: CondensePlan) =>
+  articles.reduce((sum, article, i) => {
+    const excerpts = plan.excerpts[i];
+    if (excerpts.length === 0) return sum + formatArticle(article).length;
+    const mapChars = excerpts.reduce((s, e) => s + e.length, 0);
+    return sum + mapChars + excerpts.length * plan.noteWords[i] * CHARS_PER_WORD;
+  }, 0);
+
+// Runs the map step through a small worker pool. Resolves to the articles
+// with long contents replaced by their notes; the first failure stops it.
+export const condenseArticles = async (
+  articles: Article[],
+  plan: CondensePlan,
+  condense: (text: string, targetWords: number) => Promise<string>,
+  { concurrency = 2, onProgress }: { concurrency?: number; onProgress?: (progress: ArticleProgress[]) => void } = {}
+): Promise<Article[]> => {
+  const progress: ArticleProgress[] = articles.map((a, i) => ({ title: a.title, ready: 0, total: plan.excerpts[i].length }));
+  const notes = plan.excerpts.map(e => e.map(() => ''));
+  const jobs = plan.excerpts.flatMap((e, i) => e.map((_, j) => ({ i, j })));
+  onProgress?.([...progress]);
+
+  const worker = async () => {
+    while (jobs.length > 0) {
+      const { i, j } = jobs.shift()!;
+      try {
+        notes[i][j] = await condense(plan.excerpts[i][j], plan.noteWords[i]);
+      } catch (error) {
+        jobs.length = 0;
+        throw error;
+      }
+      progress[i] = { ...progress[i], ready: progress[i].ready + 1 };
+      onProgress?.([...progress]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, worker));
+  return articles.map((a, i) => (notes[i].length > 0 ? { ...a, content: notes[i].join('\n\n') } : a));
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DIALOGUE_HOSTS, chunkDialogue, isDialogue, parseDialogue } from './dialogueService';
+
+const [first, second] = DIALOGUE_HOSTS;
+
+describe('parseDialogue', () => {
+  it('splits labeled lines into turns and joins continuation lines', () => {
+    expect(parseDialogue(`${first}: Bom dia.\n${second}: Olá!\ncomeçando agora.`)).toEqual([
+      { speaker: first, text: 'Bom dia.' },
+      { speaker: second, text: 'Olá! começando agora.' },
+    ]);
+  });
+
+  it('gives lines before the first label to the first host', () => {
+    expect(parseDialogue(`Bem-vindos ao briefing.\n\n${second}: Vamos lá.`)).toEqual([
+      { speaker: first, text: 'Bem-vindos ao briefing.' },
+      { speaker: second, text: 'Vamos lá.' },
+    ]);
+  });
+
+  it('returns nothing for a monologue', () => {
+    expect(parseDialogue('Bom dia.\nAs notícias de hoje.')).toEqual([]);
+    expect(isDialogue('Bom dia.\nAs notícias de hoje.')).toBe(false);
+  });
+});
+
+describe('chunkDialogue', () => {
+  it('keeps the opening lines before the first label', () => {
+    expect(chunkDialogue(`Bem-vindos.\n${second}: Vamos lá.`).join('\n')).toBe(`${first}: Bem-vindos.\n${second}: Vamos lá.`);
+  });
+
+  it('reads a section without labels with the first host', () => {
+    expect(chunkDialogue('Uma notícia\nsem rótulos.')).toEqual([`${first}: Uma notícia sem rótulos.`]);
+    expect(chunkDialogue('  \n')).toEqual([]);
+  });
+
+  it('packs whole turns and splits only oversized ones', () => {
+    const long = 'Frase longa o bastante para passar do limite. '.repeat(3).trim();
+    const chunks = chunkDialogue(`${first}: Oi.\n${second}: ${long}`, { firstChunkChars: 20, maxChunkChars: 60 });
+    expect(chunks[0]).toBe(`${first}: Oi.`);
+    expect(chunks.slice(1).every(chunk => chunk.startsWith(`${second}: `))).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { splitSentences } from "./transcriptService";
+
+// Host names double as the speaker labels in the script and as the speaker
+// ids multi-speaker TTS matches voices against, so they must stay in sync.
+export const DIALOGUE_HOSTS = ['Ana', 'Leo'] as const;
+
+export interface DialogueTurn {
+  speaker: string;
+  text: string;
+}
+
+const TURN_PATTERN = new RegExp(`^\\s*(${DIALOGUE_HOSTS.join('|')})\\s*:\\s*(.*)$`);
+
+// Parses "Ana: ..." / "Leo: ..." lines into turns. Unlabeled lines continue
+// the previous turn; before the first label they go to the first host, who
+// opens the show. Returns [] if the text has no labels at all.
+export const parseDialogue = (script: string): DialogueTurn[] => {
+  const lines = script.split('\n');
+  if (!lines.some(line => TURN_PATTERN.test(line))) return [];
+
+  const turns: DialogueTurn[] = [];
+  lines.forEach(line => {
+    const match = line.match(TURN_PATTERN);
+    if (match) {
+      turns.push({ speaker: match[1], text: match[2].trim() });
+    } else if (line.trim()) {
+      if (turns.length === 0) turns.push({ speaker: DIALOGUE_HOSTS[0], text: '' });
+      const last = turns[turns.length - 1];
+      last.text = `${last.text} ${line.trim()}`.trim();
+    }
+  });
+  return turns.filter(t => t.text);
+};
+
+export const isDialogue = (script: string) => parseDialogue(script).length >= 2;
+
+export const formatDialogue = (turns: DialogueTurn[]) =>
+  turns.map(t => `${t.speaker}: ${t.text}`).join('\n');
+
+// Like chunkScript, but never splits a chunk without its speaker label:
+// whole turns are packed together and only oversized turns are split.
+export const chunkDialogue = (
+  script: string,
+  { firstChunkChars = 300, maxChunkChars = 1200 }: { firstChunkChars?: number; maxChunkChars?: number } = {}
+): string[] => {
+  const chunks: DialogueTurn[][] = [];
+  let current: DialogueTurn[] = [];
+  let currentLength = 0;
+
+  const limit = () => (chunks.length === 0 ? firstChunkChars : maxChunkChars);
+  const push = (turn: DialogueTurn) => {
+    const length = turn.speaker.length + turn.text.length + 3;
+    if (current.length > 0 && currentLength + length > limit()) {
+      chunks.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(turn);
+    currentLength += length;
+  };
+
+  // A section written without labels is still read, by the first host
+  const turns = parseDialogue(script);
+  const unlabeled = script.replace(/\s+/g, ' ').trim();
+  if (turns.length === 0 && unlabeled) turns.push({ speaker: DIALOGUE_HOSTS[0], text: unlabeled });
+
+  turns.forEach(turn => {
+    if (turn.text.length <= maxChunkChars) {
+      push(turn);
+      return;
+    }
+    splitSentences(turn.text).forEach(sentence => push({ speaker: turn.speaker, text: sentence }));
+  });
+  if (current.length > 0) chunks.push(current);
+
+  return chunks.map(formatDialogue);
+};
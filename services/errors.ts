@@ -0,0 +1,126 @@
+// Typed generation errors. Adapters throw (or are wrapped into) these, so the
+// pipeline can decide what to retry and the UI what to say without matching
+// on vendor message text.
+
+export type BriefingErrorKind =
+  | 'missing_api_key'
+  | 'quota'
+  | 'unavailable'
+  | 'network'
+  | 'safety'
+  | 'empty_audio'
+  | 'cancelled'
+  | 'unknown';
+
+export class BriefingError extends Error {
+  readonly kind: BriefingErrorKind;
+  // Whether the same request may succeed if sent again later
+  readonly retryable: boolean;
+  // User-facing explanation (PT)
+  readonly userMessage: string;
+
+  constructor(kind: BriefingErrorKind, userMessage: string, { retryable = false, cause }: { retryable?: boolean; cause?: unknown } = {}) {
+    super(cause instanceof Error ? cause.message : userMessage, { cause });
+    this.name = new.target.name;
+    this.kind = kind;
+    this.retryable = retryable;
+    this.userMessage = userMessage;
+  }
+}
+
+export class MissingApiKeyError extends BriefingError {
+  constructor(cause?: unknown) {
+    super('missing_api_key', 'Chave de API ausente ou inválida. Verifique suas configurações.', { cause });
+  }
+}
+
+export class QuotaExceededError extends BriefingError {
+  // Server-suggested wait, when it sends one
+  readonly retryAfterMs?: number;
+
+  constructor(cause?: unknown, retryAfterMs?: number) {
+    super('quota', 'Limite de uso da API excedido. Tente novamente mais tarde.', { retryable: true, cause });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServiceUnavailableError extends BriefingError {
+  constructor(cause?: unknown) {
+    super('unavailable', 'O serviço de IA está sobrecarregado. Aguarde um momento e tente novamente.', { retryable: true, cause });
+  }
+}
+
+export class NetworkError extends BriefingError {
+  constructor(cause?: unknown) {
+    super('network', 'Erro de conexão. Verifique sua internet e tente novamente.', { retryable: true, cause });
+  }
+}
+
+export class SafetyBlockedError extends BriefingError {
+  constructor(cause?: unknown) {
+    super('safety', 'O conteúdo foi sinalizado pelos filtros de segurança. Revise seus artigos.', { cause });
+  }
+}
+
+// The model answered but sent no audio; usually transient
+export class EmptyAudioError extends BriefingError {
+  constructor(cause?: unknown) {
+    super('empty_audio', 'Falha ao gerar dados de áudio. Tente novamente.', { retryable: true, cause });
+  }
+}
+
+export class CancelledError extends BriefingError {
+  constructor(cause?: unknown) {
+    super('cancelled', 'Geração cancelada.', { cause });
+  }
+}
+
+const RETRY_AFTER_PATTERN = /retry (?:in|after) ([\d.]+)\s*s/i;
+
+// What fetch() rejects with when the request never got a response: Chrome,
+// Node, Firefox and Safari word it differently
+const FETCH_FAILURE_PATTERN = /failed to fetch|fetch failed|networkerror|load failed|network request failed|network connection was lost/i;
+// The SDK's own wrappers around failed connections
+const CONNECTION_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+
+// Maps anything thrown by an SDK, fetch or our own code onto a BriefingError.
+// HTTP status codes are authoritative; message text is only a fallback for
+// errors that carry none.
+export const classifyError = (error: unknown): BriefingError => {
+  if (error instanceof BriefingError) return error;
+
+  const err = error as { name?: string; message?: string; status?: number } | undefined;
+  const message = err?.message ?? String(error);
+
+  if (err?.name === 'AbortError') return new CancelledError(error);
+  if (CONNECTION_ERROR_NAMES.has(err?.name ?? '')) return new NetworkError(error);
+  if (error instanceof TypeError) {
+    // Any other TypeError is a bug on our side: retrying it only costs calls
+    return FETCH_FAILURE_PATTERN.test(message)
+      ? new NetworkError(error)
+      : new BriefingError('unknown', 'Ocorreu um erro inesperado. Tente novamente.', { cause: error });
+  }
+
+  switch (err?.status) {
+    case 400:
+      return /api.?key/i.test(message) ? new MissingApiKeyError(error) : new BriefingError('unknown', message, { cause: error });
+    case 401:
+    case 403:
+      return new MissingApiKeyError(error);
+    case 429: {
+      const retryAfter = message.match(RETRY_AFTER_PATTERN);
+      return new QuotaExceededError(error, retryAfter ? Number(retryAfter[1]) * 1000 : undefined);
+    }
+    case 500:
+    case 502:
+    case 503:
+    case 504:
+      return new ServiceUnavailableError(error);
+  }
+
+  if (/safety|blocked|prohibited/i.test(message)) return new SafetyBlockedError(error);
+  return new BriefingError('unknown', message || 'Ocorreu um erro inesperado. Tente novamente.', { cause: error });
+};
+
+export const isCancelled = (error: unknown) =>
+  error instanceof BriefingError && error.kind === 'cancelled';
@@ -0,0 +1,131 @@
+import { Chapter, TranscriptSegment } from "../types";
+
+// Browsers ship no synchronous MP3/AAC/Opus encoder: MediaRecorder only
+// captures in real time and WebCodecs output still needs a container muxer.
+// WAV is lossless, universally playable, and cheap to build by hand.
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+// Chapters become cue points with labels ('cue ' + LIST/adtl chunks), which
+// audio editors and many players show as markers
+const buildCueChunks = (chapters: Chapter[], sampleRate: number): Uint8Array => {
+  if (chapters.length === 0) return new Uint8Array(0);
+
+  const encoder = new TextEncoder();
+  const labels = chapters.map(c => encoder.encode(`${c.title}\0`));
+  const cueSize = 4 + chapters.length * 24;
+  // Each labl chunk is padded to an even length, as RIFF requires
+  const labelSizes = labels.map(l => 4 + l.length);
+  const listSize = 4 + labelSizes.reduce((sum, size) => sum + 8 + size + (size % 2), 0);
+
+  const bytes = new Uint8Array(8 + cueSize + 8 + listSize);
+  const view = new DataView(bytes.buffer);
+
+  writeString(view, 0, 'cue ');
+  view.setUint32(4, cueSize, true);
+  view.setUint32(8, chapters.length, true);
+  chapters.forEach((chapter, i) => {
+    const offset = 12 + i * 24;
+    const sample = Math.round(chapter.start * sampleRate);
+    view.setUint32(offset, i + 1, true); // cue point id
+    view.setUint32(offset + 4, sample, true); // play order position
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true); // chunk start
+    view.setUint32(offset + 16, 0, true); // block start
+    view.setUint32(offset + 20, sample, true);
+  });
+
+  let offset = 8 + cueSize;
+  writeString(view, offset, 'LIST');
+  view.setUint32(offset + 4, listSize, true);
+  writeString(view, offset + 8, 'adtl');
+  offset += 12;
+  labels.forEach((label, i) => {
+    writeString(view, offset, 'labl');
+    view.setUint32(offset + 4, labelSizes[i], true);
+    view.setUint32(offset + 8, i + 1, true);
+    bytes.set(label, offset + 12);
+    offset += 8 + labelSizes[i] + (labelSizes[i] % 2);
+  });
+
+  return bytes;
+};
+
+// Encodes an AudioBuffer as a 16-bit PCM RIFF/WAVE file, with chapter markers
+export const encodeWav = (buffer: AudioBuffer, chapters: Chapter[] = []): Blob => {
+  const numChannels = buffer.numberOfChannels;
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const cues = buildCueChunks(chapters, buffer.sampleRate);
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize + cues.length, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  // 16-bit samples keep the data chunk even-sized, so no pad byte is needed
+  return new Blob([view, cues], { type: 'audio/wav' });
+};
+
+// --- Transcript Formats ---
+
+const formatSrtTime = (seconds: number) => {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const s = Math.floor(totalMs / 1000) % 60;
+  const m = Math.floor(totalMs / 60000) % 60;
+  const h = Math.floor(totalMs / 3600000);
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+export const toSrt = (segments: TranscriptSegment[]): string =>
+  segments
+    .map((segment, i) => `${i + 1}\n${formatSrtTime(segment.start)} --> ${formatSrtTime(segment.end)}\n${segment.text}\n`)
+    .join('\n');
+
+// --- Downloads ---
+
+// e.g. "briefing-2025-03-14-0742"
+export const briefingFileName = (createdAt: number) => {
+  const d = new Date(createdAt);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `briefing-${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -1,109 +1,158 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { TTSVoice } from "../types";
-
-// Helper to get AI instance with fresh key
-const getAIClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY environment variable is missing.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+import { GenerateContentResponse, GoogleGenAI, Modality, SpeechConfig } from "@google/genai";
+import { ProviderSettings, TTSVoice } from "../types";
+import { BriefingProvider, ProviderHooks, ProviderUsage } from "./briefingProvider";
+import { DIALOGUE_HOSTS } from "./dialogueService";
+import { buildCondensePrompt, buildRewritePrompt, buildSummaryPrompt } from "./promptService";
+import { decodeBase64 } from "./audioUtils";
+import { EmptyAudioError, MissingApiKeyError, classifyError } from "./errors";
 
-// --- Audio Decoding Logic (from prompt) ---
-
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+export const GEMINI_DEFAULT_SUMMARY_MODEL = 'gemini-3-flash-preview';
+export const GEMINI_DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// The TTS model returns 24kHz mono 16-bit PCM
+const GEMINI_TTS_SAMPLE_RATE = 24000;
 
 // --- Gemini Operations ---
 
-export const summarizeArticles = async (articles: string[]): Promise<string> => {
-  const ai = getAIClient();
-  
-  const prompt = `
-    You are a professional, friendly news anchor preparing a daily briefing.
-    I will provide you with several text content pieces.
+export const createGeminiProvider = (settings: ProviderSettings, hooks: ProviderHooks): BriefingProvider => {
+  const summaryModel = settings.summaryModel || GEMINI_DEFAULT_SUMMARY_MODEL;
+  const ttsModel = settings.ttsModel || GEMINI_DEFAULT_TTS_MODEL;
+
+  const reportUsage = (
+    response: GenerateContentResponse,
+    startedAt: number,
+    usage: Pick<ProviderUsage, 'model' | 'operation' | 'characters' | 'audioSeconds'>
+  ) => {
+    hooks.onUsage?.({
+      ...usage,
+      inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      latencyMs: Math.round(performance.now() - startedAt),
+    });
+  };
+
+  // Helper to get AI instance with fresh key
+  const getAIClient = () => {
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new MissingApiKeyError(new Error("API_KEY environment variable is missing."));
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  const generateAudio = async (text: string, speechConfig: SpeechConfig, signal?: AbortSignal) => {
+    const ai = getAIClient();
+    const startedAt = performance.now();
+
+    const response = await ai.models.generateContent({
+      model: ttsModel,
+      contents: [{ parts: [{ text: text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig,
+        abortSignal: signal,
+      },
+    }).catch(error => {
+      throw classifyError(error);
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     
-    Your task:
-    1. Synthesize these articles into a single, cohesive spoken-word script.
-    2. Use a conversational, engaging tone suitable for a morning commute listener.
-    3. Smoothly transition between topics.
-    4. Keep the total length around 300-500 words.
-    5. Do not include markdown formatting, bullet points, or special characters that are hard to read aloud (like URLs). Write it exactly as it should be spoken.
-    6. Start with a friendly greeting like "Good morning, here is your personalized briefing."
-
-    Articles:
-    ${articles.map((a, i) => `--- ARTICLE ${i + 1} ---\n${a}\n`).join("\n")}
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: prompt,
-    config: {
-      temperature: 0.7,
+    if (!base64Audio) {
+      throw new EmptyAudioError(new Error("No audio data returned from Gemini."));
     }
-  });
 
-  return response.text || "I'm sorry, I couldn't generate a summary at this time.";
-};
+    const pcm = decodeBase64(base64Audio);
+    reportUsage(response, startedAt, {
+      model: ttsModel,
+      operation: 'synthesize',
+      characters: text.length,
+      audioSeconds: pcm.byteLength / 2 / GEMINI_TTS_SAMPLE_RATE,
+    });
+    return pcm;
+  };
+
+  return {
+    id: 'gemini',
+    models: { summary: summaryModel, tts: ttsModel },
+    sampleRate: GEMINI_TTS_SAMPLE_RATE,
+    // The TTS model accepts exactly two named speakers per request
+    supportsMultiSpeaker: DIALOGUE_HOSTS.length === 2,
+
+    summarize: async (articles, options, signal, context) => {
+      const ai = getAIClient();
+      const startedAt = performance.now();
+
+      const response = await ai.models.generateContent({
+        model: summaryModel,
+        contents: buildSummaryPrompt(articles, options, context),
+        config: {
+          temperature: 0.7,
+          abortSignal: signal,
+        }
+      }).catch(error => {
+        throw classifyError(error);
+      });
+      reportUsage(response, startedAt, { model: summaryModel, operation: 'summarize', characters: 0, audioSeconds: 0 });
 
-export const generateSpeech = async (
-  text: string, 
-  voice: TTSVoice,
-  audioContext: AudioContext
-): Promise<AudioBuffer> => {
-  const ai = getAIClient();
-
-  // Using the specific TTS model requested
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
+      return response.text || "I'm sorry, I couldn't generate a summary at this time.";
+    },
+
+    condense: async (text, targetWords, signal) => {
+      const ai = getAIClient();
+      const startedAt = performance.now();
+
+      const response = await ai.models.generateContent({
+        model: summaryModel,
+        contents: buildCondensePrompt(text, targetWords),
+        config: {
+          temperature: 0.2,
+          abortSignal: signal,
+        }
+      }).catch(error => {
+        throw classifyError(error);
+      });
+      reportUsage(response, startedAt, { model: summaryModel, operation: 'summarize', characters: 0, audioSeconds: 0 });
+
+      // Falling back to the excerpt keeps the story in the briefing
+      return response.text || text;
+    },
+
+    rewrite: async (paragraph, script, options, signal) => {
+      const ai = getAIClient();
+      const startedAt = performance.now();
+
+      const response = await ai.models.generateContent({
+        model: summaryModel,
+        contents: buildRewritePrompt(paragraph, script, options),
+        config: {
+          temperature: 0.9,
+          abortSignal: signal,
+        }
+      }).catch(error => {
+        throw classifyError(error);
+      });
+      reportUsage(response, startedAt, { model: summaryModel, operation: 'summarize', characters: 0, audioSeconds: 0 });
+
+      return response.text?.trim() || paragraph;
+    },
+
+    // Returns the raw 16-bit PCM for a piece of text
+    synthesize: (text: string, voice: TTSVoice, signal?: AbortSignal) =>
+      generateAudio(text, {
         voiceConfig: {
           prebuiltVoiceConfig: { voiceName: voice },
         },
-      },
-    },
-  });
-
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  
-  if (!base64Audio) {
-    throw new Error("No audio data returned from Gemini.");
-  }
-
-  // The model typically returns 24kHz audio
-  const sampleRate = 24000; 
-  const audioBytes = decode(base64Audio);
-  const audioBuffer = await decodeAudioData(audioBytes, audioContext, sampleRate, 1);
-  
-  return audioBuffer;
+      }, signal),
+
+    synthesizeDialogue: (text, speakers, signal) =>
+      generateAudio(text, {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: speakers.map(({ speaker, voice }) => ({
+            speaker,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+          })),
+        },
+      }, signal),
+  };
 };
@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { extractArticleFromHtml, isFeed, markdownToText, parseFeed, parseFile } from './ingestionService';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('extractArticleFromHtml', () => {
+  it('keeps an article inside layout wrappers named like boilerplate', () => {
+    const { title, content } = extractArticleFromHtml(fixture('sidebar-layout.html'), 'https://exemplo.com/noticia');
+    expect(title).toBe('Chuvas atingem o litoral paulista');
+    expect(content.split('\n\n')).toEqual([
+      'As chuvas que caíram desde a madrugada desta segunda-feira provocaram alagamentos em cidades do litoral norte de São Paulo.',
+      'A Defesa Civil recomendou que moradores de áreas de risco procurem abrigos e evitem deslocamentos desnecessários.',
+      'Previsão para os próximos dias',
+      'Segundo os meteorologistas, a frente fria deve perder força a partir de quarta-feira, com chuvas mais fracas.',
+    ]);
+  });
+
+  it('finds the densest paragraphs without semantic tags and drops the chrome around them', () => {
+    const { title, content } = extractArticleFromHtml(fixture('no-semantic-tags.html'));
+    expect(title).toBe('Como montar uma horta em casa');
+    expect(content).toContain('Montar uma horta em casa é mais simples');
+    expect(content).toContain('Comece por temperos');
+    expect(content).not.toMatch(/cookies|novidades|Ótimo post/);
+  });
+});
+
+describe('parseFeed', () => {
+  it('reads RSS items, preferring the full content', () => {
+    expect(isFeed(fixture('rss.xml'))).toBe(true);
+    expect(parseFeed(fixture('rss.xml'))).toEqual([
+      { title: 'Primeira & única', content: 'Texto completo da primeira notícia.', sourceUrl: 'https://exemplo.com/primeira' },
+      { title: 'Segunda', content: 'Só a descrição.', sourceUrl: 'https://exemplo.com/segunda' },
+    ]);
+  });
+
+  it('reads Atom entries with their alternate link', () => {
+    expect(isFeed(fixture('atom.xml'))).toBe(true);
+    expect(parseFeed(fixture('atom.xml'))).toEqual([
+      { title: 'Entrada Atom', content: 'Resumo da entrada.', sourceUrl: 'https://exemplo.com/atom/1' },
+    ]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseFeed('<rss><channel><item></channel>')).toThrow('Feed inválido');
+  });
+
+  it('does not take an HTML page for a feed', () => {
+    expect(isFeed(fixture('sidebar-layout.html'))).toBe(false);
+  });
+});
+
+describe('files', () => {
+  it('reduces Markdown to its words', () => {
+    expect(markdownToText('# Título\n\nTexto com **ênfase** e [link](https://x.com).\n\n- item')).toEqual({
+      title: 'Título',
+      content: 'Texto com ênfase e link.\n\nitem',
+    });
+  });
+
+  it('titles plain text after the file name', () => {
+    expect(parseFile('minha_nota-do-dia.txt', '  Conteúdo.  ')).toEqual({ title: 'minha nota do dia', content: 'Conteúdo.' });
+    expect(() => parseFile('planilha.xlsx', '')).toThrow('Formato de arquivo não suportado');
+  });
+});
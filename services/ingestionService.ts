@@ -0,0 +1,211 @@
+// Turns URLs, RSS/Atom feeds and dropped files into article text.
+// Parsing is kept separate from fetching so it can run on local fixtures.
+
+export interface ImportedArticle {
+  title: string;
+  content: string;
+  sourceUrl?: string;
+}
+
+// Elements that never hold article body text
+const BOILERPLATE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'form', 'button',
+  'nav', 'header', 'footer', 'aside', 'figure',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]',
+].join(',');
+
+// class/id tokens that mark ads and page chrome
+const BOILERPLATE_PATTERN = /(^|[-_\s])(ads?|advert\w*|sponsor\w*|promo\w*|banner|cookie\w*|newsletter|subscribe|share|social|related|comments?|sidebar|popup|modal|menu|breadcrumbs?)([-_\s]|$)/i;
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+// Plain text of an HTML fragment (e.g. a feed item's description)
+export const htmlToText = (html: string): string =>
+  normalizeWhitespace(parseHtml(html).body.textContent ?? '');
+
+const CONTENT_ROOTS = 'article, main, [role="main"]';
+
+const isBoilerplateByName = (el: Element) =>
+  BOILERPLATE_PATTERN.test(el.className?.toString() ?? '') || BOILERPLATE_PATTERN.test(el.id);
+
+// Page chrome goes before the content is chosen, except wrappers around it
+// (e.g. a page-wide <form>)
+const stripPageChrome = (root: Element) => {
+  root.querySelectorAll(BOILERPLATE_SELECTORS).forEach(el => {
+    if (!el.matches(CONTENT_ROOTS) && !el.querySelector(CONTENT_ROOTS)) el.remove();
+  });
+};
+
+const textLength = (el: Element) => normalizeWhitespace(el.textContent ?? '').length;
+
+// Class/id names only count inside the chosen content, and never for an
+// element holding most of it: they also match layout wrappers such as
+// "has-sidebar" or "menu-open" around the whole article
+const stripBoilerplate = (content: Element) => {
+  content.querySelectorAll(BOILERPLATE_SELECTORS).forEach(el => el.remove());
+  const total = textLength(content);
+  content.querySelectorAll('[class], [id]').forEach(el => {
+    if (isBoilerplateByName(el) && textLength(el) <= total / 2) el.remove();
+  });
+};
+
+// The element whose direct paragraphs carry the most text
+const findMainContent = (doc: Document): Element => {
+  const semantic = doc.querySelector(CONTENT_ROOTS);
+  if (semantic && (semantic.textContent ?? '').trim().length > 200) return semantic;
+
+  let best: Element = doc.body;
+  let bestScore = 0;
+  doc.body.querySelectorAll('p').forEach(p => {
+    const parent = p.parentElement;
+    // Comment threads and "related" boxes are still in the page here; only
+    // the paragraph's own container is judged, never the wrappers above it
+    if (!parent || isBoilerplateByName(parent)) return;
+    const score = Array.from(parent.children)
+      .filter(child => child.tagName === 'P')
+      .reduce((sum, child) => sum + (child.textContent ?? '').length, 0);
+    if (score > bestScore) {
+      best = parent;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const extractArticleFromHtml = (html: string, sourceUrl?: string): ImportedArticle => {
+  const doc = parseHtml(html);
+
+  const title = normalizeWhitespace(
+    doc.querySelector('meta[property="og:title"]')?.getAttribute('content')
+      || doc.querySelector('h1')?.textContent
+      || doc.title
+      || ''
+  );
+
+  stripPageChrome(doc.body);
+  const main = findMainContent(doc);
+  stripBoilerplate(main);
+
+  const blocks = Array.from(main.querySelectorAll('h2, h3, p, li, blockquote'))
+    // Skip containers whose text is already covered by a nested block
+    .filter(el => !el.querySelector('p, li, blockquote'))
+    .map(el => normalizeWhitespace(el.textContent ?? ''))
+    .filter(Boolean);
+
+  const content = blocks.length > 0
+    ? blocks.join('\n\n')
+    : normalizeWhitespace(main.textContent ?? '');
+
+  return { title, content, sourceUrl };
+};
+
+// --- Feeds ---
+
+export const isFeed = (text: string) =>
+  /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(rss|feed|rdf:RDF)[\s>]/i.test(text);
+
+const childText = (el: Element, ...tagNames: string[]) => {
+  for (const tagName of tagNames) {
+    const child = Array.from(el.children).find(c => c.tagName.toLowerCase() === tagName.toLowerCase());
+    if (child?.textContent?.trim()) return child.textContent.trim();
+  }
+  return '';
+};
+
+// Parses RSS 2.0, RSS 1.0 (RDF) and Atom into one article per item
+export const parseFeed = (xml: string): ImportedArticle[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Feed inválido: não foi possível ler o XML.');
+  }
+
+  const items = Array.from(doc.getElementsByTagName('item'));
+  if (items.length > 0) {
+    return items.map(item => ({
+      title: htmlToText(childText(item, 'title')),
+      content: htmlToText(childText(item, 'content:encoded', 'description')),
+      sourceUrl: childText(item, 'link') || undefined,
+    }));
+  }
+
+  return Array.from(doc.getElementsByTagName('entry')).map(entry => {
+    const link = Array.from(entry.getElementsByTagName('link'))
+      .find(l => !l.getAttribute('rel') || l.getAttribute('rel') === 'alternate');
+    return {
+      title: htmlToText(childText(entry, 'title')),
+      content: htmlToText(childText(entry, 'content', 'summary')),
+      sourceUrl: link?.getAttribute('href') || undefined,
+    };
+  });
+};
+
+// --- Files ---
+
+// Reduces Markdown to speakable text: drops syntax, keeps the words
+export const markdownToText = (markdown: string): { title: string; content: string } => {
+  const heading = markdown.match(/^#[ \t]+(.+)$/m);
+  const title = heading?.[1].trim() ?? '';
+  const content = (heading ? markdown.replace(heading[0], '') : markdown)
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]*[-*+][ \t]+/gm, '')
+    .replace(/^[ \t]*>[ \t]?/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { title, content };
+};
+
+const fileBaseName = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+
+export const SUPPORTED_FILE_EXTENSIONS = ['.txt', '.md', '.markdown', '.html', '.htm'];
+
+export const parseFile = (name: string, text: string): ImportedArticle => {
+  const extension = name.slice(name.lastIndexOf('.')).toLowerCase();
+
+  if (extension === '.html' || extension === '.htm') {
+    const article = extractArticleFromHtml(text);
+    return { ...article, title: article.title || fileBaseName(name) };
+  }
+  if (extension === '.md' || extension === '.markdown') {
+    const { title, content } = markdownToText(text);
+    return { title: title || fileBaseName(name), content };
+  }
+  if (extension === '.txt') {
+    return { title: fileBaseName(name), content: text.trim() };
+  }
+  throw new Error(`Formato de arquivo não suportado: ${name}`);
+};
+
+export const importFiles = async (files: File[]): Promise<ImportedArticle[]> =>
+  Promise.all(files.map(async file => parseFile(file.name, await file.text())));
+
+// --- Network ---
+
+// `proxy` is a URL template: "{url}" is replaced by the encoded target,
+// otherwise the encoded target is appended. Empty means fetch directly.
+export const buildProxiedUrl = (url: string, proxy: string) => {
+  if (!proxy.trim()) return url;
+  return proxy.includes('{url}')
+    ? proxy.replace('{url}', encodeURIComponent(url))
+    : `${proxy}${encodeURIComponent(url)}`;
+};
+
+// Fetches a page or feed and returns the articles it contains
+export const importFromUrl = async (url: string, proxy: string): Promise<ImportedArticle[]> => {
+  const response = await fetch(buildProxiedUrl(url, proxy));
+  if (!response.ok) {
+    throw new Error(`Falha ao buscar ${url} (HTTP ${response.status}).`);
+  }
+  const text = await response.text();
+
+  if (isFeed(text)) {
+    return parseFeed(text);
+  }
+  return [extractArticleFromHtml(text, url)];
+};
@@ -0,0 +1,124 @@
+import { PlaybackLevelSettings } from "../types";
+
+// Integrated loudness after ITU-R BS.1770 / EBU R128: K-weighted mean square
+// over 400 ms blocks with 75% overlap, gated at -70 LUFS and then 10 LU
+// below the ungated level. The player turns the result into a gain so every
+// briefing plays at the same level, followed by a light compressor for road
+// noise.
+
+export const DEFAULT_PLAYBACK_LEVEL: PlaybackLevelSettings = {
+  volume: 1,
+  normalize: true,
+};
+
+// Usual target for spoken word on mobile (-23 LUFS broadcast is too quiet in a car)
+export const TARGET_LUFS = -16;
+const MAX_GAIN_DB = 12;
+const MAX_CUT_DB = -12;
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = BLOCK_SECONDS / 4;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+// Light compression: only evens out loud passages, no pumping on speech
+export const COMPRESSOR_SETTINGS = {
+  threshold: -24,
+  knee: 12,
+  ratio: 3,
+  attack: 0.005,
+  release: 0.25,
+};
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+// K-weighting for any sample rate (the standard lists 48 kHz coefficients;
+// these are the analog prototypes they come from)
+const kWeighting = (sampleRate: number): Biquad[] => {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, f: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Mean square of each gating block, summed over channels (all weighted 1:
+// speech is mono or front left/right)
+export const measureBlocks = (buffer: AudioBuffer): Float64Array => {
+  const blockLength = Math.round(BLOCK_SECONDS * buffer.sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * buffer.sampleRate);
+  const count = buffer.length < blockLength ? 0 : Math.floor((buffer.length - blockLength) / step) + 1;
+  const blocks = new Float64Array(count);
+  const filters = kWeighting(buffer.sampleRate);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const weighted = filters.reduce(applyBiquad, buffer.getChannelData(c));
+    // Running sum over step-sized slices, each block being four of them
+    const slices = new Float64Array(Math.floor(buffer.length / step));
+    for (let s = 0; s < slices.length; s++) {
+      let sum = 0;
+      for (let i = s * step; i < (s + 1) * step; i++) sum += weighted[i] * weighted[i];
+      slices[s] = sum;
+    }
+    const slicesPerBlock = Math.round(blockLength / step);
+    for (let b = 0; b < count; b++) {
+      let sum = 0;
+      for (let s = b; s < b + slicesPerBlock && s < slices.length; s++) sum += slices[s];
+      blocks[b] += sum / blockLength;
+    }
+  }
+  return blocks;
+};
+
+// Integrated loudness over the blocks of every chunk; -Infinity for silence.
+// Blocks don't span chunk boundaries, which is close enough for TTS chunks
+// that start and end on pauses.
+export const integratedLoudness = (blocksPerChunk: Float64Array[]): number => {
+  const blocks = blocksPerChunk.flatMap(b => Array.from(b)).filter(ms => ms > 0 && toLufs(ms) > ABSOLUTE_GATE);
+  if (blocks.length === 0) return -Infinity;
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const threshold = toLufs(mean(blocks)) + RELATIVE_GATE;
+  const gated = blocks.filter(ms => toLufs(ms) > threshold);
+  return toLufs(mean(gated.length > 0 ? gated : blocks));
+};
+
+// Linear gain that brings `lufs` to the target, within sane limits
+export const normalizationGain = (lufs: number): number => {
+  if (!Number.isFinite(lufs)) return 1;
+  const db = Math.min(Math.max(TARGET_LUFS - lufs, MAX_CUT_DB), MAX_GAIN_DB);
+  return Math.pow(10, db / 20);
+};
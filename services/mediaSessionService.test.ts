@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ARTWORK_URL, bindMediaSession, shortcutFor, updateMediaMetadata, updatePositionState } from './mediaSessionService';
+
+// Records handlers like a browser's navigator.mediaSession
+const createStubSession = (unsupported: MediaSessionAction[] = []) => {
+  const handlers = new Map<MediaSessionAction, MediaSessionActionHandler | null>();
+  const session = {
+    metadata: null as MediaMetadata | null,
+    playbackState: 'none' as MediaSessionPlaybackState,
+    setActionHandler: vi.fn((action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+      if (unsupported.includes(action)) throw new TypeError(`${action} is not supported`);
+      handlers.set(action, handler);
+    }),
+    setPositionState: vi.fn(),
+  };
+  const trigger = (action: MediaSessionAction, details: Partial<MediaSessionActionDetails> = {}) =>
+    handlers.get(action)?.({ action, ...details } as MediaSessionActionDetails);
+  return { session: session as unknown as MediaSession & typeof session, handlers, trigger };
+};
+
+const createHandlers = () => ({
+  play: vi.fn(),
+  pause: vi.fn(),
+  seekTo: vi.fn(),
+  seekBy: vi.fn(),
+  nextChapter: vi.fn(),
+  previousChapter: vi.fn(),
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('bindMediaSession', () => {
+  it('routes lock-screen actions to the player', () => {
+    const { session, trigger } = createStubSession();
+    const handlers = createHandlers();
+    bindMediaSession(session, handlers);
+
+    trigger('play');
+    trigger('pause');
+    trigger('seekto', { seekTime: 42 });
+    trigger('seekforward', { seekOffset: 30 });
+    trigger('seekbackward');
+    trigger('nexttrack');
+    trigger('previoustrack');
+
+    expect(handlers.play).toHaveBeenCalledOnce();
+    expect(handlers.pause).toHaveBeenCalledOnce();
+    expect(handlers.seekTo).toHaveBeenCalledWith(42);
+    expect(handlers.seekBy).toHaveBeenNthCalledWith(1, 30);
+    expect(handlers.seekBy).toHaveBeenNthCalledWith(2, -15);
+    expect(handlers.nextChapter).toHaveBeenCalledOnce();
+    expect(handlers.previousChapter).toHaveBeenCalledOnce();
+  });
+
+  it('ignores a seek without a target time', () => {
+    const { session, trigger } = createStubSession();
+    const handlers = createHandlers();
+    bindMediaSession(session, handlers);
+    trigger('seekto');
+    expect(handlers.seekTo).not.toHaveBeenCalled();
+  });
+
+  it('leaves track buttons unbound without chapter handlers', () => {
+    const { session, handlers } = createStubSession();
+    bindMediaSession(session, { play: vi.fn(), pause: vi.fn(), seekTo: vi.fn(), seekBy: vi.fn() });
+    expect(handlers.get('nexttrack')).toBeNull();
+    expect(handlers.get('previoustrack')).toBeNull();
+  });
+
+  it('skips unsupported actions and unbinds the rest on cleanup', () => {
+    const { session, handlers } = createStubSession(['seekto']);
+    const unbind = bindMediaSession(session, createHandlers());
+    expect(handlers.has('seekto')).toBe(false);
+
+    unbind();
+    expect([...handlers.values()].every(h => h === null)).toBe(true);
+  });
+
+  it('does nothing without a session', () => {
+    expect(() => bindMediaSession(undefined, createHandlers())()).not.toThrow();
+  });
+});
+
+describe('updateMediaMetadata', () => {
+  it('shows the chapter as title and the briefing as artist', () => {
+    vi.stubGlobal('MediaMetadata', class {
+      constructor(init: MediaMetadataInit) {
+        Object.assign(this, init);
+      }
+    });
+    const { session } = createStubSession();
+
+    updateMediaMetadata(session, { title: 'Briefing de segunda', createdAt: Date.UTC(2025, 2, 10, 12), chapter: 'Economia' });
+    expect(session.metadata).toMatchObject({
+      title: 'Economia',
+      artist: 'Briefing de segunda',
+      artwork: [expect.objectContaining({ src: ARTWORK_URL })],
+    });
+
+    updateMediaMetadata(session, { title: 'Briefing de segunda' });
+    expect(session.metadata).toMatchObject({ title: 'Briefing de segunda', artist: 'Briefing Diário' });
+  });
+});
+
+describe('updatePositionState', () => {
+  it('clamps the position into the duration', () => {
+    const { session } = createStubSession();
+    updatePositionState(session, { duration: 120, position: 130, playbackRate: 1.5 });
+    updatePositionState(session, { duration: 120, position: -2, playbackRate: 1 });
+    expect(session.setPositionState).toHaveBeenNthCalledWith(1, { duration: 120, position: 120, playbackRate: 1.5 });
+    expect(session.setPositionState).toHaveBeenNthCalledWith(2, { duration: 120, position: 0, playbackRate: 1 });
+  });
+
+  it('skips an unknown duration', () => {
+    const { session } = createStubSession();
+    updatePositionState(session, { duration: 0, position: 0, playbackRate: 1 });
+    updatePositionState(session, { duration: NaN, position: 0, playbackRate: 1 });
+    expect(session.setPositionState).not.toHaveBeenCalled();
+  });
+
+  it('survives a browser rejecting the state', () => {
+    const { session } = createStubSession();
+    session.setPositionState.mockImplementation(() => {
+      throw new TypeError('invalid');
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => updatePositionState(session, { duration: 10, position: 5, playbackRate: 1 })).not.toThrow();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('shortcutFor', () => {
+  const key = (k: string, extra: Partial<KeyboardEvent> = {}) => ({
+    key: k,
+    shiftKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    target: { tagName: 'BODY' } as unknown as EventTarget,
+    defaultPrevented: false,
+    ...extra,
+  });
+  const element = (tagName: string, props: object = {}) => ({ tagName, ...props }) as unknown as EventTarget;
+
+  it('maps space and arrows to player actions', () => {
+    expect(shortcutFor(key(' '))).toEqual({ type: 'toggle' });
+    expect(shortcutFor(key('ArrowRight'))).toEqual({ type: 'seekBy', seconds: 5 });
+    expect(shortcutFor(key('ArrowLeft'))).toEqual({ type: 'seekBy', seconds: -5 });
+    expect(shortcutFor(key('ArrowRight', { shiftKey: true }))).toEqual({ type: 'chapter', direction: 1 });
+    expect(shortcutFor(key('ArrowLeft', { shiftKey: true }))).toEqual({ type: 'chapter', direction: -1 });
+    expect(shortcutFor(key('a'))).toBeNull();
+  });
+
+  it('ignores keys typed into form fields', () => {
+    ['INPUT', 'TEXTAREA', 'SELECT'].forEach(tagName => {
+      expect(shortcutFor(key(' ', { target: element(tagName) }))).toBeNull();
+      expect(shortcutFor(key('ArrowLeft', { target: element(tagName) }))).toBeNull();
+    });
+    expect(shortcutFor(key(' ', { target: element('DIV', { isContentEditable: true }) }))).toBeNull();
+  });
+
+  it('leaves space to focused buttons but still seeks from them', () => {
+    expect(shortcutFor(key(' ', { target: element('BUTTON') }))).toBeNull();
+    expect(shortcutFor(key('ArrowRight', { target: element('BUTTON') }))).toEqual({ type: 'seekBy', seconds: 5 });
+  });
+
+  it('ignores modified and already handled keys', () => {
+    expect(shortcutFor(key('ArrowRight', { ctrlKey: true }))).toBeNull();
+    expect(shortcutFor(key('ArrowRight', { metaKey: true }))).toBeNull();
+    expect(shortcutFor(key(' ', { altKey: true }))).toBeNull();
+    expect(shortcutFor(key(' ', { defaultPrevented: true }))).toBeNull();
+  });
+});
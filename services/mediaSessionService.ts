@@ -0,0 +1,123 @@
+// Lock-screen / headset integration via the Media Session API, plus the
+// player's keyboard shortcuts. The session is passed in rather than read from
+// `navigator` so the bindings can be exercised with a stub.
+
+export const ARTWORK_URL = '/icon.svg';
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  seekTo: (seconds: number) => void;
+  seekBy: (seconds: number) => void;
+  nextChapter?: () => void;
+  previousChapter?: () => void;
+}
+
+// Skip distance when the OS doesn't specify one
+const DEFAULT_SEEK_OFFSET = 15;
+
+export const getMediaSession = (): MediaSession | undefined =>
+  typeof navigator !== 'undefined' && 'mediaSession' in navigator ? navigator.mediaSession : undefined;
+
+// Registers action handlers and returns a cleanup that unregisters them
+export const bindMediaSession = (session: MediaSession | undefined, handlers: MediaSessionHandlers) => {
+  if (!session) return () => {};
+
+  const actions: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+    ['play', () => handlers.play()],
+    ['pause', () => handlers.pause()],
+    ['seekto', details => details.seekTime !== undefined && handlers.seekTo(details.seekTime)],
+    ['seekbackward', details => handlers.seekBy(-(details.seekOffset ?? DEFAULT_SEEK_OFFSET))],
+    ['seekforward', details => handlers.seekBy(details.seekOffset ?? DEFAULT_SEEK_OFFSET)],
+    ['nexttrack', handlers.nextChapter ? () => handlers.nextChapter!() : null],
+    ['previoustrack', handlers.previousChapter ? () => handlers.previousChapter!() : null],
+  ];
+
+  const bound: MediaSessionAction[] = [];
+  actions.forEach(([action, handler]) => {
+    try {
+      session.setActionHandler(action, handler);
+      bound.push(action);
+    } catch {
+      // Browsers throw for actions they don't support
+    }
+  });
+
+  return () => {
+    bound.forEach(action => session.setActionHandler(action, null));
+  };
+};
+
+export const updateMediaMetadata = (
+  session: MediaSession | undefined,
+  { title, createdAt, chapter }: { title: string; createdAt?: number; chapter?: string }
+) => {
+  if (!session || typeof MediaMetadata === 'undefined') return;
+  const date = new Date(createdAt ?? Date.now()).toLocaleDateString([], { day: '2-digit', month: 'long', year: 'numeric' });
+  session.metadata = new MediaMetadata({
+    title: chapter ?? title,
+    artist: chapter ? title : 'Briefing Diário',
+    album: date,
+    artwork: [{ src: ARTWORK_URL, sizes: '512x512', type: 'image/svg+xml' }],
+  });
+};
+
+export const updatePositionState = (
+  session: MediaSession | undefined,
+  { duration, position, playbackRate }: { duration: number; position: number; playbackRate: number }
+) => {
+  if (!session?.setPositionState || !(duration > 0)) return;
+  try {
+    session.setPositionState({
+      duration,
+      playbackRate,
+      position: Math.max(0, Math.min(position, duration)),
+    });
+  } catch (error) {
+    console.warn('Failed to update media position state:', error);
+  }
+};
+
+export const clearMediaSession = (session: MediaSession | undefined) => {
+  if (!session) return;
+  session.metadata = null;
+  session.playbackState = 'none';
+};
+
+// --- Keyboard Shortcuts ---
+
+export type ShortcutAction =
+  | { type: 'toggle' }
+  | { type: 'seekBy'; seconds: number }
+  | { type: 'chapter'; direction: 1 | -1 };
+
+const SHORTCUT_SEEK_SECONDS = 5;
+
+// Elements that give these keys a meaning of their own (typing, pressing a
+// focused button, moving a slider)
+const handlesKeyItself = (target: EventTarget | null, key: string) => {
+  const el = target as HTMLElement | null;
+  if (!el || !el.tagName) return false;
+  if (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName)) return true;
+  return key === ' ' && ['BUTTON', 'SUMMARY', 'A'].includes(el.tagName);
+};
+
+// Maps a keydown to a player action. Space toggles playback, arrows seek
+// 5s, Shift+arrows jump chapters. Keys already handled elsewhere are ignored.
+export const shortcutFor = (
+  event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey' | 'target' | 'defaultPrevented'>
+): ShortcutAction | null => {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return null;
+  if (handlesKeyItself(event.target, event.key)) return null;
+
+  switch (event.key) {
+    case ' ':
+      return { type: 'toggle' };
+    case 'ArrowRight':
+      return event.shiftKey ? { type: 'chapter', direction: 1 } : { type: 'seekBy', seconds: SHORTCUT_SEEK_SECONDS };
+    case 'ArrowLeft':
+      return event.shiftKey ? { type: 'chapter', direction: -1 } : { type: 'seekBy', seconds: -SHORTCUT_SEEK_SECONDS };
+    default:
+      return null;
+  }
+};
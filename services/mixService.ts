@@ -0,0 +1,207 @@
+import { MusicSettings, MusicSoundKind } from "../types";
+import { peakEnvelope } from "./audioUtils";
+import { integratedLoudness, measureBlocks } from "./loudnessService";
+
+// Optional music stage over a finished briefing: an intro sting, a low
+// music bed ducked under the speech, and an outro sting, rendered with an
+// OfflineAudioContext into one buffer for playback and export. The bundled
+// sounds are synthesized here, so the app ships no audio files; the user
+// can replace any of them with their own.
+
+export const DEFAULT_MUSIC: MusicSettings = {
+  enabled: false,
+  jingles: true,
+  bedLevel: -22,
+  jingleLevel: -6,
+  ducking: 10,
+  custom: {},
+};
+
+export const MUSIC_SOUND_KINDS: MusicSoundKind[] = ['intro', 'bed', 'outro'];
+
+export type MusicSounds = Partial<Record<MusicSoundKind, AudioBuffer>>;
+
+export interface MixedAudio {
+  buffer: AudioBuffer;
+  // Where the speech starts in the mix; transcript and chapters shift by it
+  speechOffset: number;
+}
+
+// Speech comes in this long before the intro sting ends
+const INTRO_OVERLAP = 0.6;
+// Bed alone before the first word when there's no intro
+const LEAD_IN = 1.5;
+const OUTRO_GAP = 0.4;
+const BED_FADE = 2;
+// Quiet sounds are never boosted past this
+const MAX_SOUND_GAIN = 8;
+
+// Ducking follows the speech envelope, held through the short pauses
+// between words so the bed doesn't pump
+const DUCK_BIN_SECONDS = 0.05;
+const SPEECH_THRESHOLD = 0.02; // ≈ -34 dBFS peak
+const DUCK_HOLD = 0.4;
+const DUCK_ATTACK = 0.08; // time constants, in seconds
+const DUCK_RELEASE = 0.5;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// --- Bundled sounds ---
+
+const noteFrequency = (semitonesFromA4: number) => 440 * Math.pow(2, semitonesFromA4 / 12);
+// Semitones from A4
+const F3 = -16, G3 = -14, A3 = -12, B3 = -10, C4 = -9, D4 = -7, E4 = -5, G4 = -2, C5 = 3, D5 = 5, E5 = 7, G5 = 10, C6 = 15;
+
+const renderOffline = async (seconds: number, sampleRate: number, build: (ctx: OfflineAudioContext) => void) => {
+  const ctx = new OfflineAudioContext(1, Math.ceil(seconds * sampleRate), sampleRate);
+  build(ctx);
+  return ctx.startRendering();
+};
+
+interface ToneOptions {
+  peak?: number;
+  attack?: number;
+  type?: OscillatorType;
+  destination?: AudioNode;
+}
+
+// One note with a quick attack and an exponential decay
+const tone = (ctx: OfflineAudioContext, note: number, start: number, duration: number, options: ToneOptions = {}) => {
+  const { peak = 0.2, attack = 0.01, type = 'sine', destination = ctx.destination } = options;
+  const oscillator = ctx.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.value = noteFrequency(note);
+  const envelope = ctx.createGain();
+  envelope.gain.setValueAtTime(0, start);
+  envelope.gain.linearRampToValueAtTime(peak, start + attack);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+  oscillator.connect(envelope).connect(destination);
+  oscillator.start(start);
+  oscillator.stop(start + duration);
+};
+
+// Bright rising arpeggio with a soft octave below
+const renderIntro = (sampleRate: number) => renderOffline(2.6, sampleRate, ctx => {
+  [C5, E5, G5, C6].forEach((note, i) => {
+    tone(ctx, note, i * 0.14, 2.2 - i * 0.14);
+    tone(ctx, note - 12, i * 0.14, 1.6 - i * 0.14, { peak: 0.08, type: 'triangle' });
+  });
+});
+
+// The same colours falling, resolving on a low chord
+const renderOutro = (sampleRate: number) => renderOffline(3.2, sampleRate, ctx => {
+  [G5, E5, D5].forEach((note, i) => tone(ctx, note, i * 0.18, 1.2));
+  [C4, E4, G4, C5].forEach(note => tone(ctx, note, 0.6, 2.6, { peak: 0.12, attack: 0.04, type: 'triangle' }));
+});
+
+// Four slow pad chords, meant to loop
+const BED_CHORDS = [[C4, E4, G4], [A3, C4, E4], [F3, A3, C4], [G3, B3, D4]];
+const BED_CHORD_SECONDS = 2.5;
+const renderBed = (sampleRate: number) => renderOffline(BED_CHORDS.length * BED_CHORD_SECONDS, sampleRate, ctx => {
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 900;
+  filter.connect(ctx.destination);
+  BED_CHORDS.forEach((chord, i) => {
+    chord.forEach(note => {
+      tone(ctx, note, i * BED_CHORD_SECONDS, BED_CHORD_SECONDS, { peak: 0.12, attack: 0.6, type: 'triangle', destination: filter });
+    });
+  });
+});
+
+const bundledCache = new Map<number, Promise<Required<MusicSounds>>>();
+
+// Rendered once per sample rate
+export const bundledSounds = (sampleRate: number): Promise<Required<MusicSounds>> => {
+  if (!bundledCache.has(sampleRate)) {
+    bundledCache.set(sampleRate, (async () => {
+      const [intro, bed, outro] = await Promise.all([renderIntro(sampleRate), renderBed(sampleRate), renderOutro(sampleRate)]);
+      return { intro, bed, outro };
+    })());
+  }
+  return bundledCache.get(sampleRate)!;
+};
+
+// --- Mixing ---
+
+// Times (from the start of the speech) where the bed goes down or back up
+export const duckingPlan = (speech: AudioBuffer): { time: number; ducked: boolean }[] => {
+  const peaks = peakEnvelope(speech, DUCK_BIN_SECONDS);
+  const hold = Math.round(DUCK_HOLD / DUCK_BIN_SECONDS);
+  const talking = new Array<boolean>(peaks.length).fill(false);
+  peaks.forEach((peak, i) => {
+    if (peak < SPEECH_THRESHOLD) return;
+    for (let j = Math.max(0, i - hold); j <= Math.min(peaks.length - 1, i + hold); j++) talking[j] = true;
+  });
+
+  const plan: { time: number; ducked: boolean }[] = [];
+  talking.forEach((isTalking, i) => {
+    if (isTalking !== (talking[i - 1] ?? false)) plan.push({ time: i * DUCK_BIN_SECONDS, ducked: isTalking });
+  });
+  return plan;
+};
+
+export const mixBriefing = async (speech: AudioBuffer, sounds: MusicSounds, settings: MusicSettings): Promise<MixedAudio> => {
+  const { sampleRate } = speech;
+  const intro = settings.jingles ? sounds.intro : undefined;
+  const outro = settings.jingles ? sounds.outro : undefined;
+  const { bed } = sounds;
+
+  const speechOffset = Math.max(intro ? intro.duration - INTRO_OVERLAP : 0, bed ? LEAD_IN : 0);
+  const speechEnd = speechOffset + speech.duration;
+  const outroStart = speechEnd + OUTRO_GAP;
+  const end = outro ? outroStart + outro.duration : speechEnd + (bed ? BED_FADE : 0);
+  const ctx = new OfflineAudioContext(1, Math.ceil(end * sampleRate), sampleRate);
+
+  // Levels are loudness relative to the speech, so any file sits the same way
+  const speechLoudness = integratedLoudness([measureBlocks(speech)]);
+  const gainFor = (sound: AudioBuffer, relativeDb: number) => {
+    const loudness = integratedLoudness([measureBlocks(sound)]);
+    if (!Number.isFinite(loudness) || !Number.isFinite(speechLoudness)) return dbToGain(relativeDb);
+    return Math.min(dbToGain(speechLoudness + relativeDb - loudness), MAX_SOUND_GAIN);
+  };
+
+  const play = (buffer: AudioBuffer, when: number, destination: AudioNode, loop = false) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    source.connect(destination);
+    source.start(when);
+    if (loop) source.stop(end);
+  };
+
+  play(speech, speechOffset, ctx.destination);
+
+  const jingleGain = ctx.createGain();
+  jingleGain.connect(ctx.destination);
+  if (intro) {
+    jingleGain.gain.setValueAtTime(gainFor(intro, settings.jingleLevel), 0);
+    play(intro, 0, jingleGain);
+  }
+  if (outro) {
+    jingleGain.gain.setValueAtTime(gainFor(outro, settings.jingleLevel), outroStart);
+    play(outro, outroStart, jingleGain);
+  }
+
+  if (bed) {
+    // Level and fades on one gain, ducking on another, so their automation never collides
+    const level = ctx.createGain();
+    const bedGain = gainFor(bed, settings.bedLevel);
+    level.gain.setValueAtTime(0, 0);
+    level.gain.linearRampToValueAtTime(bedGain, Math.min(BED_FADE, speechOffset));
+    level.gain.setValueAtTime(bedGain, Math.max(0, end - BED_FADE));
+    level.gain.linearRampToValueAtTime(0, end);
+
+    const duck = ctx.createGain();
+    const ducked = dbToGain(-settings.ducking);
+    duck.gain.setValueAtTime(1, 0);
+    duckingPlan(speech).forEach(({ time, ducked: isDucked }) => {
+      duck.gain.setTargetAtTime(isDucked ? ducked : 1, speechOffset + time, isDucked ? DUCK_ATTACK : DUCK_RELEASE);
+    });
+
+    duck.connect(level).connect(ctx.destination);
+    play(bed, 0, duck, true);
+  }
+
+  return { buffer: await ctx.startRendering(), speechOffset };
+};
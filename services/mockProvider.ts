@@ -0,0 +1,224 @@
+import { BriefingOptions, ProviderSettings, TTSVoice } from "../types";
+import { BriefingProvider, ProviderHooks } from "./briefingProvider";
+import { splitSentences } from "./transcriptService";
+import { DIALOGUE_HOSTS, formatDialogue, parseDialogue } from "./dialogueService";
+import { concatPcm } from "./audioUtils";
+import { sectionMarker } from "./chapterService";
+import { sourceTag } from "./attributionService";
+import { SummaryContext, buildCondensePrompt, buildRewritePrompt, buildSummaryPrompt, isPriorityArticle } from "./promptService";
+import { estimateTokens } from "./usageService";
+import { abortableSleep } from "./retry";
+
+// Offline stand-in for a real backend: canned scripts and synthetic audio,
+// identical for identical input, so the app and CI can run without a key.
+
+const MOCK_SAMPLE_RATE = 24000;
+// Enough delay to exercise loading states without slowing tests down much
+const MOCK_LATENCY_MS = 300;
+
+// Each voice gets its own base pitch so voice switches are audible
+const VOICE_BASE_HZ: Record<TTSVoice, number> = {
+  [TTSVoice.Kore]: 220,
+  [TTSVoice.Puck]: 262,
+  [TTSVoice.Fenrir]: 147,
+  [TTSVoice.Charon]: 165,
+  [TTSVoice.Zephyr]: 294,
+};
+
+const SECONDS_PER_CHAR = 0.055;
+const WORD_GAP_SECONDS = 0.07;
+const SENTENCE_GAP_SECONDS = 0.35;
+const FADE_SECONDS = 0.005;
+
+
+const extractTitle = (article: string, index: number) =>
+  article.match(/^Título:\s*(.+)$/m)?.[1].trim() || `Artigo ${index + 1}`;
+
+const extractLead = (article: string) => {
+  const content = article.match(/Conteúdo:\s*([\s\S]+)/)?.[1] ?? article;
+  return splitSentences(content)[0] ?? '';
+};
+
+const MOCK_PHRASES: Record<string, { greeting: string; update: string; story: string; signOff: string }> = {
+  'pt-BR': { greeting: 'Bom dia, aqui está o seu briefing simulado.', update: 'Temos novidades desde o último briefing.', story: 'Notícia', signOff: 'Isso é tudo por hoje. Tenha um ótimo trajeto.' },
+  'en-US': { greeting: 'Good morning, here is your simulated briefing.', update: 'There is news since your last briefing.', story: 'Story', signOff: "That's all for today. Have a great commute." },
+  'es-ES': { greeting: 'Buenos días, aquí está tu resumen simulado.', update: 'Hay novedades desde el último resumen.', story: 'Noticia', signOff: 'Eso es todo por hoy. Buen viaje.' },
+  'fr-FR': { greeting: 'Bonjour, voici votre briefing simulé.', update: 'Il y a du nouveau depuis le dernier briefing.', story: 'Sujet', signOff: "C'est tout pour aujourd'hui. Bon trajet." },
+};
+
+export const buildMockScript = (articles: string[], options?: BriefingOptions, context: SummaryContext = {}): string => {
+  const phrases = MOCK_PHRASES[options?.language ?? 'pt-BR'] ?? MOCK_PHRASES['pt-BR'];
+  const withLead = options?.format !== 'headlines';
+  const groups = context.storyGroups ?? [];
+  // Grouped stories are told once, by their first article
+  const sources = (index: number) => groups.find(g => g[0] === index) ?? [index];
+  const isRepeat = (index: number) => groups.some(g => g.indexOf(index) > 0);
+  // Priority stories lead, as the prompt asks; otherwise queue order
+  const order = articles
+    .map((_, i) => i)
+    .filter(i => !isRepeat(i))
+    .sort((a, b) => Number(isPriorityArticle(articles[b])) - Number(isPriorityArticle(articles[a])));
+
+  const lines = [
+    context.coveredTitles?.length ? phrases.update : phrases.greeting,
+    ...order.map((index, i) => {
+      const count = sources(index).length > 1 ? ` (${sources(index).length}×)` : '';
+      // Every sentence carries its tag, as the prompt asks
+      const tag = sourceTag(sources(index).map(n => n + 1));
+      const heading = `${phrases.story} ${i + 1}: ${extractTitle(articles[index], index)}${count}. ${tag}`;
+      const lead = withLead ? extractLead(articles[index]) : '';
+      return lead ? `${heading} ${lead} ${tag}` : heading;
+    }),
+    phrases.signOff,
+  ];
+
+  // Hosts alternate lines, first host opens and closes
+  const spoken = options?.mode === 'dialogue'
+    ? lines.map((line, i) => `${DIALOGUE_HOSTS[i === lines.length - 1 ? 0 : i % 2]}: ${line}`)
+    : lines;
+  const separator = options?.mode === 'dialogue' ? '\n' : '\n\n';
+
+  // Story lines follow the greeting, one per article, each under its marker
+  return spoken
+    .map((line, i) => (i >= 1 && i <= order.length ? `${sectionMarker(order[i - 1] + 1)}\n${line}` : line))
+    .join(separator);
+};
+
+// Leading sentences up to the word budget (at least one)
+export const buildMockNotes = (text: string, targetWords: number): string => {
+  const notes: string[] = [];
+  let words = 0;
+  for (const sentence of splitSentences(text)) {
+    const count = sentence.split(/\s+/).filter(Boolean).length;
+    if (notes.length > 0 && words + count > targetWords) break;
+    notes.push(sentence);
+    words += count;
+  }
+  return notes.join(' ');
+};
+
+// Same sentences, last one first; a speaker label stays in front
+export const buildMockRewrite = (paragraph: string): string => {
+  const reverse = (text: string) => splitSentences(text).reverse().join(' ');
+  const turns = parseDialogue(paragraph);
+  return turns.length > 0
+    ? formatDialogue(turns.map(t => ({ ...t, text: reverse(t.text) })))
+    : reverse(paragraph);
+};
+
+// Renders text as tone bursts (one per word) separated by silence
+export const renderMockSpeech = (text: string, voice: TTSVoice, sampleRate = MOCK_SAMPLE_RATE): Uint8Array => {
+  const segments: { seconds: number; hz: number }[] = [];
+  splitSentences(text).forEach(sentence => {
+    sentence.split(/\s+/).filter(Boolean).forEach(word => {
+      // Vary pitch by word length so the result isn't a monotone drone
+      segments.push({ seconds: word.length * SECONDS_PER_CHAR, hz: VOICE_BASE_HZ[voice] * (1 + (word.length % 5) * 0.06) });
+      segments.push({ seconds: WORD_GAP_SECONDS, hz: 0 });
+    });
+    segments.push({ seconds: SENTENCE_GAP_SECONDS, hz: 0 });
+  });
+
+  const totalFrames = segments.reduce((sum, s) => sum + Math.round(s.seconds * sampleRate), 0);
+  const samples = new Int16Array(totalFrames);
+  const fadeFrames = Math.round(FADE_SECONDS * sampleRate);
+
+  let offset = 0;
+  segments.forEach(({ seconds, hz }) => {
+    const frames = Math.round(seconds * sampleRate);
+    if (hz > 0) {
+      for (let i = 0; i < frames; i++) {
+        // Short fades avoid clicks at burst edges
+        const envelope = Math.min(1, i / fadeFrames, (frames - i) / fadeFrames);
+        samples[offset + i] = Math.round(Math.sin((2 * Math.PI * hz * i) / sampleRate) * envelope * 0.2 * 0x7fff);
+      }
+    }
+    offset += frames;
+  });
+
+  return new Uint8Array(samples.buffer);
+};
+
+const MOCK_MODEL = 'mock';
+
+export const createMockProvider = (_settings: ProviderSettings, hooks: ProviderHooks): BriefingProvider => {
+  // Token counts are estimated from text length, as a real backend would bill
+  const reportSpeech = (text: string, pcm: Uint8Array) => {
+    hooks.onUsage?.({
+      model: MOCK_MODEL,
+      operation: 'synthesize',
+      inputTokens: estimateTokens(text),
+      outputTokens: 0,
+      characters: text.length,
+      audioSeconds: pcm.byteLength / 2 / MOCK_SAMPLE_RATE,
+      latencyMs: MOCK_LATENCY_MS,
+    });
+    return pcm;
+  };
+
+  return {
+    id: 'mock',
+    models: { summary: MOCK_MODEL, tts: MOCK_MODEL },
+    sampleRate: MOCK_SAMPLE_RATE,
+    supportsMultiSpeaker: true,
+
+    summarize: async (articles, options, signal, context) => {
+      await abortableSleep(MOCK_LATENCY_MS, signal);
+      const script = buildMockScript(articles, options, context);
+      hooks.onUsage?.({
+        model: MOCK_MODEL,
+        operation: 'summarize',
+        inputTokens: estimateTokens(buildSummaryPrompt(articles, options, context)),
+        outputTokens: estimateTokens(script),
+        characters: 0,
+        audioSeconds: 0,
+        latencyMs: MOCK_LATENCY_MS,
+      });
+      return script;
+    },
+
+    condense: async (text, targetWords, signal) => {
+      await abortableSleep(MOCK_LATENCY_MS, signal);
+      const notes = buildMockNotes(text, targetWords);
+      hooks.onUsage?.({
+        model: MOCK_MODEL,
+        operation: 'summarize',
+        inputTokens: estimateTokens(buildCondensePrompt(text, targetWords)),
+        outputTokens: estimateTokens(notes),
+        characters: 0,
+        audioSeconds: 0,
+        latencyMs: MOCK_LATENCY_MS,
+      });
+      return notes;
+    },
+
+    rewrite: async (paragraph, script, options, signal) => {
+      await abortableSleep(MOCK_LATENCY_MS, signal);
+      const rewritten = buildMockRewrite(paragraph);
+      hooks.onUsage?.({
+        model: MOCK_MODEL,
+        operation: 'summarize',
+        inputTokens: estimateTokens(buildRewritePrompt(paragraph, script, options)),
+        outputTokens: estimateTokens(rewritten),
+        characters: 0,
+        audioSeconds: 0,
+        latencyMs: MOCK_LATENCY_MS,
+      });
+      return rewritten;
+    },
+
+    synthesize: async (text, voice, signal) => {
+      await abortableSleep(MOCK_LATENCY_MS, signal);
+      return reportSpeech(text, renderMockSpeech(text, voice));
+    },
+
+    // Stitches per-line renders, which is also how a vendor without native
+    // multi-speaker TTS could support dialogue
+    synthesizeDialogue: async (text, speakers, signal) => {
+      await abortableSleep(MOCK_LATENCY_MS, signal);
+      return reportSpeech(text, concatPcm(parseDialogue(text).map(turn => {
+        const voice = speakers.find(s => s.speaker === turn.speaker)?.voice ?? speakers[0].voice;
+        return renderMockSpeech(turn.text, voice);
+      })));
+    },
+  };
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeForSpeech, supportsNormalization } from './normalizationService';
+
+describe('normalizeForSpeech', () => {
+  describe('pt-BR', () => {
+    it.each([
+      ['1.234', 'mil duzentos e trinta e quatro'],
+      ['2.000.021', 'dois milhões e vinte e um'],
+      ['12,5', 'doze vírgula cinco'],
+      ['R$ 1.234,50', 'mil duzentos e trinta e quatro reais e cinquenta centavos'],
+      ['R$ 1', 'um real'],
+      ['US$ 2 bi', 'dois bilhões de dólares'],
+      ['15/03/2024', 'quinze de março de dois mil e vinte e quatro'],
+      ['01/05/2025', 'primeiro de maio de dois mil e vinte e cinco'],
+      ['alta de 12,5%', 'alta de doze vírgula cinco por cento'],
+      ['O Sr. Silva', 'O senhor Silva'],
+      ['200 g', 'duzentos gramas'],
+    ])('%s', (text, spoken) => {
+      expect(normalizeForSpeech(text, 'pt-BR')).toBe(spoken);
+    });
+
+    it.each([
+      ['1.500 pessoas', 'mil e quinhentas pessoas'],
+      ['1 pessoa', 'uma pessoa'],
+      ['221 vagas', 'duzentas e vinte e uma vagas'],
+      ['22 ações', 'vinte e duas ações'],
+      ['2 mil pessoas', 'duas mil pessoas'],
+      ['1.200.000 pessoas', 'um milhão e duzentas mil pessoas'],
+      ['£ 2', 'duas libras'],
+    ])('agrees with feminine nouns: %s', (text, spoken) => {
+      expect(normalizeForSpeech(text, 'pt-BR')).toBe(spoken);
+    });
+
+    it.each([
+      ['2 dias', 'dois dias'],
+      ['200 problemas', 'duzentos problemas'],
+      ['2 milhões de pessoas', 'dois milhões de pessoas'],
+      ['1 jornalista', 'um jornalista'],
+    ])('stays masculine otherwise: %s', (text, spoken) => {
+      expect(normalizeForSpeech(text, 'pt-BR')).toBe(spoken);
+    });
+  });
+
+  describe('en-US', () => {
+    it.each([
+      ['1,500 people', 'one thousand five hundred people'],
+      ['$2.50', 'two dollars and fifty cents'],
+      ['$1', 'one dollar'],
+      ['3/15/2024', 'March fifteenth, two thousand twenty-four'],
+      ['up 12.5%', 'up twelve point five percent'],
+      ['Dr. Smith', 'Doctor Smith'],
+    ])('%s', (text, spoken) => {
+      expect(normalizeForSpeech(text, 'en-US')).toBe(spoken);
+    });
+  });
+
+  describe('es-ES', () => {
+    it.each([
+      ['1.500', 'mil quinientos'],
+      ['21 €', 'veintiún euros'],
+      ['15/03/2024', 'quince de marzo de dos mil veinticuatro'],
+      ['un 12,5 %', 'un doce coma cinco por ciento'],
+      ['Sr. Pérez', 'señor Pérez'],
+    ])('%s', (text, spoken) => {
+      expect(normalizeForSpeech(text, 'es-ES')).toBe(spoken);
+    });
+  });
+
+  describe('fr-FR', () => {
+    it.each([
+      ['1 500', 'mille cinq cents'],
+      ['21 €', 'vingt et un euros'],
+      ['15/03/2024', 'quinze mars deux mille vingt-quatre'],
+      ['soit 12,5 %', 'soit douze virgule cinq pour cent'],
+      ['M. Dupont', 'monsieur Dupont'],
+    ])('%s', (text, spoken) => {
+      expect(normalizeForSpeech(text, 'fr-FR')).toBe(spoken);
+    });
+  });
+
+  it.each([
+    ['pt-BR', 'Inflação de 3.5%', 'Inflação de três vírgula cinco por cento'],
+    ['pt-BR', 'R$ 2.75', 'dois reais e setenta e cinco centavos'],
+    ['pt-BR', '1.500 e 1.2345', 'mil e quinhentos e um vírgula dois mil trezentos e quarenta e cinco'],
+    ['es-ES', 'Inflación del 3.5 %', 'Inflación del tres coma cinco por ciento'],
+    ['fr-FR', 'Inflation de 3.5 %', 'Inflation de trois virgule cinq pour cent'],
+  ])('%s reads a period before other than three digits as a decimal point: %s', (language, text, spoken) => {
+    expect(normalizeForSpeech(text, language)).toBe(spoken);
+  });
+
+  it('leaves languages without rules untouched', () => {
+    expect(supportsNormalization('de-DE')).toBe(false);
+    expect(normalizeForSpeech('1.500 Leute', 'de-DE')).toBe('1.500 Leute');
+  });
+});
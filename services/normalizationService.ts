@@ -0,0 +1,539 @@
+// Spells out what TTS models tend to misread: numbers, currency amounts,
+// dates, percentages, units and common abbreviations, following the
+// conventions of the briefing's language. Pure string in, string out, so
+// it only ever touches the text sent to speech synthesis, never the
+// transcript. Languages without rules here pass through unchanged.
+
+interface Scale {
+  one: string;
+  many: string;
+  // "milhões de reais" but "mil reais"
+  takesOf: boolean;
+}
+
+interface SpeechLocale {
+  // `feminine` for a number agreeing with a feminine noun ("duzentas pessoas")
+  spell: (n: number, feminine?: boolean) => string;
+  // How a number reads right before a noun ("un dólar", not "uno dólar")
+  beforeNoun?: (words: string) => string;
+  // For languages whose numbers agree in gender with the noun they count
+  isFeminine?: (noun: string) => boolean;
+  decimalSeparator: ',' | '.';
+  // Characters allowed between groups of three digits
+  thousandsSeparators: string;
+  decimalWord: string;
+  percent: string;
+  months: string[];
+  dateOrder: 'dmy' | 'mdy';
+  dayWord: (day: number) => string;
+  formatDate: (day: string, month: string, year: string) => string;
+  currencies: Record<CurrencyCode, [string, string]>;
+  cents: [string, string];
+  centsJoin: string;
+  of: string;
+  // Words that may follow an amount: "R$ 2 bi", "$3 billion"
+  scales: Record<string, Scale>;
+  units: Record<string, [string, string]>;
+  abbreviations: Record<string, string>;
+}
+
+type CurrencyCode = 'BRL' | 'USD' | 'EUR' | 'GBP';
+
+// Longest symbols first so "US$" isn't read as "$"
+const CURRENCY_SYMBOLS: [string, CurrencyCode][] = [['US$', 'USD'], ['R$', 'BRL'], ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP']];
+
+// Largest amount spelled out; anything bigger is left as digits
+const MAX_SPELLED = 999_999_999_999;
+
+const groupsOf = (n: number) => {
+  const groups: number[] = [];
+  for (let rest = n; rest > 0; rest = Math.floor(rest / 1000)) groups.push(rest % 1000);
+  return groups;
+};
+
+// --- Portuguese ---
+
+const PT_UNITS = ['zero', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez', 'onze', 'doze', 'treze', 'catorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove'];
+const PT_TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const PT_HUNDREDS = ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'];
+const PT_GROUPS: [string, string][] = [['', ''], ['mil', 'mil'], ['milhão', 'milhões'], ['bilhão', 'bilhões']];
+
+// "uma", "duas" and the hundreds from "duzentas" on change with gender
+const ptFeminine = (words: string) =>
+  words.replace(/(^|\s)um$/, '$1uma').replace(/(^|\s)dois$/, '$1duas').replace(/entos(?=\s|$)/g, 'entas');
+
+const ptBelowThousand = (n: number, feminine = false): string => {
+  if (n === 100) return 'cem';
+  let words: string;
+  if (n < 20) words = PT_UNITS[n];
+  else if (n < 100) words = PT_TENS[Math.floor(n / 10)] + (n % 10 ? ` e ${PT_UNITS[n % 10]}` : '');
+  else words = PT_HUNDREDS[Math.floor(n / 100)] + (n % 100 ? ` e ${ptBelowThousand(n % 100)}` : '');
+  return feminine ? ptFeminine(words) : words;
+};
+
+// Milhão and bilhão are masculine nouns themselves, so only the units and
+// thousands agree with a feminine noun: "duzentos milhões e duzentas mil pessoas"
+const spellPt = (n: number, feminine = false): string => {
+  if (n === 0) return PT_UNITS[0];
+  const groups = groupsOf(n);
+  const parts: { words: string; value: number }[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const g = groups[i];
+    if (g === 0) continue;
+    const [one, many] = PT_GROUPS[i];
+    const agrees = feminine && i < 2;
+    const words = i === 0 ? ptBelowThousand(g, agrees) : i === 1 && g === 1 ? one : `${ptBelowThousand(g, agrees)} ${g === 1 ? one : many}`;
+    parts.push({ words, value: g });
+  }
+  // "mil e vinte", "mil e quinhentos", but "mil duzentos e trinta"
+  return parts
+    .map((p, i) => (i === 0 ? p.words : `${i === parts.length - 1 && (p.value < 100 || p.value % 100 === 0) ? 'e ' : ''}${p.words}`))
+    .join(' ');
+};
+
+// Nouns in -a are mostly feminine; these common ones aren't
+const PT_MASCULINE_IN_A = new Set([
+  'dia', 'mapa', 'problema', 'tema', 'sistema', 'programa', 'clima', 'planeta', 'idioma', 'cinema', 'poema',
+  'grama', 'quilograma', 'telefonema', 'esquema', 'diploma', 'drama', 'trauma', 'fantasma', 'pijama', 'teorema',
+]);
+
+// Best guess from the ending, enough for what follows numbers in the news
+const ptIsFeminine = (noun: string) => {
+  const word = noun.toLowerCase();
+  if (/(?:ção|ções|são|sões|dade|dades|agem|agens)$/.test(word)) return true;
+  const singular = word.replace(/s$/, '');
+  // "-ista" nouns (jornalista, motorista) take either gender
+  return singular.endsWith('a') && !singular.endsWith('ista') && !PT_MASCULINE_IN_A.has(singular);
+};
+
+// --- English ---
+
+const EN_UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_GROUPS = ['', 'thousand', 'million', 'billion'];
+const EN_ORDINALS: Record<string, string> = { one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth' };
+
+const enBelowThousand = (n: number): string => {
+  if (n < 20) return EN_UNITS[n];
+  if (n < 100) return EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_UNITS[n % 10]}` : '');
+  return `${EN_UNITS[Math.floor(n / 100)]} hundred` + (n % 100 ? ` ${enBelowThousand(n % 100)}` : '');
+};
+
+const spellEn = (n: number): string => {
+  if (n === 0) return EN_UNITS[0];
+  const groups = groupsOf(n);
+  const parts: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    if (groups[i] > 0) parts.push(`${enBelowThousand(groups[i])}${i > 0 ? ` ${EN_GROUPS[i]}` : ''}`);
+  }
+  return parts.join(' ');
+};
+
+const ordinalEn = (n: number) =>
+  spellEn(n).replace(/[a-z]+$/, w => EN_ORDINALS[w] ?? (w.endsWith('y') ? `${w.slice(0, -1)}ieth` : `${w}th`));
+
+// --- Spanish ---
+
+const ES_UNITS = ['cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez', 'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve', 'veinte', 'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete', 'veintiocho', 'veintinueve'];
+const ES_TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const ES_HUNDREDS = ['', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos', 'ochocientos', 'novecientos'];
+
+// "uno" drops its last vowel before a noun or "mil"
+const apocopeEs = (words: string) => words.replace(/veintiuno$/, 'veintiún').replace(/(^|\s)uno$/, '$1un');
+
+const esBelowThousand = (n: number): string => {
+  if (n === 100) return 'cien';
+  if (n < 30) return ES_UNITS[n];
+  if (n < 100) return ES_TENS[Math.floor(n / 10)] + (n % 10 ? ` y ${ES_UNITS[n % 10]}` : '');
+  return ES_HUNDREDS[Math.floor(n / 100)] + (n % 100 ? ` ${esBelowThousand(n % 100)}` : '');
+};
+
+const esBelowMillion = (n: number): string => {
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  const head = thousands === 0 ? '' : thousands === 1 ? 'mil' : `${apocopeEs(esBelowThousand(thousands))} mil`;
+  return [head, rest || !head ? esBelowThousand(rest) : ''].filter(Boolean).join(' ');
+};
+
+// Spanish counts millions of millions: 10^9 is "mil millones"
+const spellEs = (n: number): string => {
+  const millions = Math.floor(n / 1_000_000);
+  const rest = n % 1_000_000;
+  if (millions === 0) return esBelowMillion(rest);
+  const head = millions === 1 ? 'un millón' : `${apocopeEs(esBelowMillion(millions))} millones`;
+  return rest ? `${head} ${esBelowMillion(rest)}` : head;
+};
+
+// --- French ---
+
+const FR_UNITS = ['zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize'];
+const FR_TENS = ['', 'dix', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+const FR_GROUPS: [string, string][] = [['', ''], ['mille', 'mille'], ['million', 'millions'], ['milliard', 'milliards']];
+
+const frBelowHundred = (n: number): string => {
+  if (n < 17) return FR_UNITS[n];
+  if (n < 20) return `dix-${FR_UNITS[n - 10]}`;
+  if (n < 70) return FR_TENS[Math.floor(n / 10)] + (n % 10 === 1 ? ' et un' : n % 10 ? `-${FR_UNITS[n % 10]}` : '');
+  if (n < 80) return n === 71 ? 'soixante et onze' : `soixante-${frBelowHundred(n - 60)}`;
+  return n === 80 ? 'quatre-vingts' : `quatre-vingt-${frBelowHundred(n - 80)}`;
+};
+
+const frBelowThousand = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds === 0) return frBelowHundred(rest);
+  const head = hundreds === 1 ? 'cent' : `${FR_UNITS[hundreds]} cent${rest ? '' : 's'}`;
+  return rest ? `${head} ${frBelowHundred(rest)}` : head;
+};
+
+const spellFr = (n: number): string => {
+  if (n === 0) return FR_UNITS[0];
+  const groups = groupsOf(n);
+  const parts: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const g = groups[i];
+    if (g === 0) continue;
+    const [one, many] = FR_GROUPS[i];
+    if (i === 0) parts.push(frBelowThousand(g));
+    else if (i === 1) parts.push(g === 1 ? one : `${frBelowThousand(g).replace(/(cent|vingt)s$/, '$1')} ${one}`);
+    else parts.push(`${frBelowThousand(g)} ${g === 1 ? one : many}`);
+  }
+  return parts.join(' ');
+};
+
+// --- Locales ---
+
+const scale = (one: string, many = one, takesOf = true): Scale => ({ one, many, takesOf });
+
+const SPEECH_LOCALES: Record<string, SpeechLocale> = {
+  'pt-BR': {
+    spell: spellPt,
+    isFeminine: ptIsFeminine,
+    decimalSeparator: ',',
+    thousandsSeparators: '.',
+    decimalWord: 'vírgula',
+    percent: 'por cento',
+    months: ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+    dateOrder: 'dmy',
+    dayWord: day => (day === 1 ? 'primeiro' : spellPt(day)),
+    formatDate: (day, month, year) => `${day} de ${month} de ${year}`,
+    currencies: { BRL: ['real', 'reais'], USD: ['dólar', 'dólares'], EUR: ['euro', 'euros'], GBP: ['libra', 'libras'] },
+    cents: ['centavo', 'centavos'],
+    centsJoin: 'e',
+    of: 'de',
+    scales: {
+      mil: scale('mil', 'mil', false),
+      mi: scale('milhão', 'milhões'),
+      milhão: scale('milhão', 'milhões'),
+      milhões: scale('milhão', 'milhões'),
+      bi: scale('bilhão', 'bilhões'),
+      bilhão: scale('bilhão', 'bilhões'),
+      bilhões: scale('bilhão', 'bilhões'),
+      tri: scale('trilhão', 'trilhões'),
+      trilhão: scale('trilhão', 'trilhões'),
+      trilhões: scale('trilhão', 'trilhões'),
+    },
+    units: {
+      'km/h': ['quilômetro por hora', 'quilômetros por hora'],
+      km: ['quilômetro', 'quilômetros'],
+      cm: ['centímetro', 'centímetros'],
+      mm: ['milímetro', 'milímetros'],
+      m: ['metro', 'metros'],
+      kg: ['quilo', 'quilos'],
+      g: ['grama', 'gramas'],
+      '°C': ['grau Celsius', 'graus Celsius'],
+      kWh: ['quilowatt-hora', 'quilowatts-hora'],
+      MW: ['megawatt', 'megawatts'],
+      GW: ['gigawatt', 'gigawatts'],
+      MB: ['megabyte', 'megabytes'],
+      GB: ['gigabyte', 'gigabytes'],
+      TB: ['terabyte', 'terabytes'],
+    },
+    abbreviations: {
+      'Sr.': 'senhor', 'Sra.': 'senhora', 'Dr.': 'doutor', 'Dra.': 'doutora', 'Prof.': 'professor', 'Profa.': 'professora',
+      'etc.': 'etcétera', 'nº': 'número', 'p.p.': 'pontos percentuais', 'p. ex.': 'por exemplo', 'aprox.': 'aproximadamente',
+    },
+  },
+  'en-US': {
+    spell: spellEn,
+    decimalSeparator: '.',
+    thousandsSeparators: ',',
+    decimalWord: 'point',
+    percent: 'percent',
+    months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    dateOrder: 'mdy',
+    dayWord: ordinalEn,
+    formatDate: (day, month, year) => `${month} ${day}, ${year}`,
+    currencies: { BRL: ['real', 'reais'], USD: ['dollar', 'dollars'], EUR: ['euro', 'euros'], GBP: ['pound', 'pounds'] },
+    cents: ['cent', 'cents'],
+    centsJoin: 'and',
+    of: '',
+    scales: {
+      thousand: scale('thousand', 'thousand', false),
+      million: scale('million'),
+      bn: scale('billion'),
+      billion: scale('billion'),
+      trillion: scale('trillion'),
+    },
+    units: {
+      'km/h': ['kilometer per hour', 'kilometers per hour'],
+      mph: ['mile per hour', 'miles per hour'],
+      km: ['kilometer', 'kilometers'],
+      cm: ['centimeter', 'centimeters'],
+      mm: ['millimeter', 'millimeters'],
+      m: ['meter', 'meters'],
+      kg: ['kilogram', 'kilograms'],
+      lb: ['pound', 'pounds'],
+      g: ['gram', 'grams'],
+      '°C': ['degree Celsius', 'degrees Celsius'],
+      '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+      kWh: ['kilowatt-hour', 'kilowatt-hours'],
+      MW: ['megawatt', 'megawatts'],
+      GW: ['gigawatt', 'gigawatts'],
+      MB: ['megabyte', 'megabytes'],
+      GB: ['gigabyte', 'gigabytes'],
+      TB: ['terabyte', 'terabytes'],
+    },
+    abbreviations: {
+      'Mr.': 'Mister', 'Mrs.': 'Missus', 'Dr.': 'Doctor', 'Prof.': 'Professor', 'St.': 'Saint',
+      'etc.': 'et cetera', 'vs.': 'versus', 'approx.': 'approximately', 'e.g.': 'for example', 'i.e.': 'that is',
+    },
+  },
+  'es-ES': {
+    spell: spellEs,
+    beforeNoun: apocopeEs,
+    decimalSeparator: ',',
+    thousandsSeparators: '.',
+    decimalWord: 'coma',
+    percent: 'por ciento',
+    months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+    dateOrder: 'dmy',
+    dayWord: day => (day === 1 ? 'primero' : spellEs(day)),
+    formatDate: (day, month, year) => `${day} de ${month} de ${year}`,
+    currencies: { BRL: ['real', 'reales'], USD: ['dólar', 'dólares'], EUR: ['euro', 'euros'], GBP: ['libra', 'libras'] },
+    cents: ['céntimo', 'céntimos'],
+    centsJoin: 'con',
+    of: 'de',
+    scales: {
+      mil: scale('mil', 'mil', false),
+      millón: scale('millón', 'millones'),
+      millones: scale('millón', 'millones'),
+      billón: scale('billón', 'billones'),
+      billones: scale('billón', 'billones'),
+    },
+    units: {
+      'km/h': ['kilómetro por hora', 'kilómetros por hora'],
+      km: ['kilómetro', 'kilómetros'],
+      cm: ['centímetro', 'centímetros'],
+      mm: ['milímetro', 'milímetros'],
+      m: ['metro', 'metros'],
+      kg: ['kilo', 'kilos'],
+      g: ['gramo', 'gramos'],
+      '°C': ['grado Celsius', 'grados Celsius'],
+      kWh: ['kilovatio hora', 'kilovatios hora'],
+      MW: ['megavatio', 'megavatios'],
+      GW: ['gigavatio', 'gigavatios'],
+      MB: ['megabyte', 'megabytes'],
+      GB: ['gigabyte', 'gigabytes'],
+      TB: ['terabyte', 'terabytes'],
+    },
+    abbreviations: {
+      'Sr.': 'señor', 'Sra.': 'señora', 'Dr.': 'doctor', 'Dra.': 'doctora', 'Prof.': 'profesor',
+      'etc.': 'etcétera', 'nº': 'número', 'aprox.': 'aproximadamente',
+    },
+  },
+  'fr-FR': {
+    spell: spellFr,
+    decimalSeparator: ',',
+    // "200 000", including the non-breaking spaces French typography uses
+    thousandsSeparators: '. \u00a0\u202f',
+    decimalWord: 'virgule',
+    percent: 'pour cent',
+    months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+    dateOrder: 'dmy',
+    dayWord: day => (day === 1 ? 'premier' : spellFr(day)),
+    formatDate: (day, month, year) => `${day} ${month} ${year}`,
+    currencies: { BRL: ['réal', 'réais'], USD: ['dollar', 'dollars'], EUR: ['euro', 'euros'], GBP: ['livre', 'livres'] },
+    cents: ['centime', 'centimes'],
+    centsJoin: 'et',
+    of: 'de',
+    scales: {
+      mille: scale('mille', 'mille', false),
+      million: scale('million', 'millions'),
+      millions: scale('million', 'millions'),
+      milliard: scale('milliard', 'milliards'),
+      milliards: scale('milliard', 'milliards'),
+    },
+    units: {
+      'km/h': ['kilomètre par heure', 'kilomètres par heure'],
+      km: ['kilomètre', 'kilomètres'],
+      cm: ['centimètre', 'centimètres'],
+      mm: ['millimètre', 'millimètres'],
+      m: ['mètre', 'mètres'],
+      kg: ['kilo', 'kilos'],
+      g: ['gramme', 'grammes'],
+      '°C': ['degré Celsius', 'degrés Celsius'],
+      kWh: ['kilowattheure', 'kilowattheures'],
+      MW: ['mégawatt', 'mégawatts'],
+      GW: ['gigawatt', 'gigawatts'],
+      Mo: ['mégaoctet', 'mégaoctets'],
+      Go: ['gigaoctet', 'gigaoctets'],
+      To: ['téraoctet', 'téraoctets'],
+    },
+    abbreviations: {
+      'M.': 'monsieur', 'Mme': 'madame', 'Mlle': 'mademoiselle', 'Dr': 'docteur', 'Pr': 'professeur',
+      'etc.': 'et cetera', 'env.': 'environ', 'n°': 'numéro',
+    },
+  },
+};
+
+export const supportsNormalization = (language: string) => language in SPEECH_LOCALES;
+
+// --- Parsing helpers ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Not glued to a letter or digit on that side
+const BEFORE = '(?<![\\p{L}\\p{N}])';
+const AFTER = '(?![\\p{L}\\p{N}])';
+
+// Edges made of punctuation ("etc.", "R$") carry their own boundary
+export const termPattern = (term: string) =>
+  `${/^[\p{L}\p{N}]/u.test(term) ? BEFORE : ''}${escapeRegExp(term)}${/[\p{L}\p{N}]$/u.test(term) ? AFTER : ''}`;
+
+// Models often write "3.5" even where the decimal separator is a comma. A
+// period before anything but exactly three digits can't group thousands,
+// so it reads as a decimal point; "15.03.2024" and "3.5.1" are left alone.
+const DECIMAL_POINT = '\\d+\\.(?!\\d{3}(?!\\d))\\d+(?!\\.\\d)';
+
+const numberPattern = (locale: SpeechLocale) => {
+  const thousands = `[${escapeRegExp(locale.thousandsSeparators)}]`;
+  const decimals = `(?:${escapeRegExp(locale.decimalSeparator)}\\d+)?`;
+  const decimalPoint = locale.decimalSeparator === '.' ? '' : `${DECIMAL_POINT}|`;
+  return `\\d{1,3}(?:${thousands}\\d{3})+${decimals}|${decimalPoint}\\d+${decimals}`;
+};
+
+interface ParsedNumber {
+  integer: number;
+  // Digits after the decimal separator, as written
+  fraction: string;
+}
+
+const parseNumber = (text: string, locale: SpeechLocale): ParsedNumber => {
+  if (locale.decimalSeparator !== '.' && new RegExp(`^${DECIMAL_POINT}$`).test(text)) {
+    const [integer, fraction] = text.split('.');
+    return { integer: Number(integer), fraction };
+  }
+  const [integer, fraction = ''] = text.split(locale.decimalSeparator);
+  return { integer: Number(integer.replace(/\D/g, '')), fraction };
+};
+
+interface SpellOptions {
+  // Right before a noun (or unit, or currency name)
+  beforeNoun?: boolean;
+  // The noun that follows, for gender agreement
+  noun?: string;
+}
+
+const spellNumber = ({ integer, fraction }: ParsedNumber, locale: SpeechLocale, { beforeNoun = false, noun }: SpellOptions = {}): string | null => {
+  if (!Number.isSafeInteger(integer) || integer > MAX_SPELLED) return null;
+  if (fraction) {
+    // Leading zeros are read one by one: 1,05 is "um vírgula zero cinco"
+    const zeros = fraction.match(/^0*/)![0].length;
+    const rest = fraction.slice(zeros);
+    const decimals = [...Array(zeros).fill(locale.spell(0)), ...(rest ? [locale.spell(Number(rest))] : [])];
+    return [locale.spell(integer), locale.decimalWord, ...decimals].join(' ');
+  }
+  const words = locale.spell(integer, Boolean(noun && locale.isFeminine?.(noun)));
+  return beforeNoun && locale.beforeNoun ? locale.beforeNoun(words) : words;
+};
+
+const isOne = (n: ParsedNumber) => n.integer === 1 && !n.fraction;
+
+// --- Passes ---
+
+const expandAbbreviations = (text: string, locale: SpeechLocale) =>
+  Object.entries(locale.abbreviations)
+    .sort(([a], [b]) => b.length - a.length)
+    .reduce((result, [abbreviation, spoken]) => result.replace(new RegExp(termPattern(abbreviation), 'gu'), spoken), text);
+
+const expandDates = (text: string, locale: SpeechLocale) =>
+  text.replace(new RegExp(`${BEFORE}(\\d{1,2})/(\\d{1,2})/(\\d{4})${AFTER}`, 'gu'), (match, a: string, b: string, year: string) => {
+    const [day, month] = locale.dateOrder === 'dmy' ? [Number(a), Number(b)] : [Number(b), Number(a)];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return match;
+    return locale.formatDate(locale.dayWord(day), locale.months[month - 1], locale.spell(Number(year)));
+  });
+
+const expandCurrencies = (text: string, locale: SpeechLocale) => {
+  const symbols = CURRENCY_SYMBOLS.map(([symbol]) => escapeRegExp(symbol)).join('|');
+  const scales = Object.keys(locale.scales).sort((a, b) => b.length - a.length).join('|');
+  const amount = `(${numberPattern(locale)})(?:\\s+(${scales})${AFTER})?`;
+
+  const speak = (symbol: string, number: string, scaleWord: string | undefined, match: string) => {
+    const code = CURRENCY_SYMBOLS.find(([s]) => s === symbol)![1];
+    const [one, many] = locale.currencies[code];
+    const parsed = parseNumber(number, locale);
+    const scale = scaleWord ? locale.scales[scaleWord] : undefined;
+
+    if (scale) {
+      // The number counts the scale word ("dois milhões"), or the currency after "mil"
+      const words = spellNumber(parsed, locale, { beforeNoun: true, noun: scale.takesOf ? scale.many : many });
+      if (!words) return match;
+      const scaleWords = parsed.integer >= 2 ? scale.many : scale.one;
+      return [words, scaleWords, scale.takesOf ? locale.of : '', many].filter(Boolean).join(' ');
+    }
+    // Two decimals are cents: "R$ 10,50" is ten reais and fifty centavos
+    if (parsed.fraction.length === 2) {
+      const whole = spellNumber({ integer: parsed.integer, fraction: '' }, locale, { beforeNoun: true, noun: many });
+      const cents = Number(parsed.fraction);
+      if (!whole) return match;
+      const wholePart = parsed.integer > 0 ? `${whole} ${parsed.integer === 1 ? one : many}` : '';
+      const centsPart = cents > 0 ? `${spellNumber({ integer: cents, fraction: '' }, locale, { beforeNoun: true, noun: locale.cents[1] })} ${locale.cents[cents === 1 ? 0 : 1]}` : '';
+      return [wholePart, centsPart].filter(Boolean).join(` ${locale.centsJoin} `) || `${locale.spell(0)} ${many}`;
+    }
+    const words = spellNumber(parsed, locale, { beforeNoun: true, noun: many });
+    return words ? `${words} ${isOne(parsed) ? one : many}` : match;
+  };
+
+  return text
+    .replace(new RegExp(`(${symbols})\\s?${amount}`, 'gu'), (match, symbol, number, scaleWord) => speak(symbol, number, scaleWord, match))
+    // Symbol after the amount, as written in French and Spanish: "10 €"
+    .replace(new RegExp(`${BEFORE}${amount}\\s?(€|£)`, 'gu'), (match, number, scaleWord, symbol) => speak(symbol, number, scaleWord, match));
+};
+
+const expandPercentages = (text: string, locale: SpeechLocale) =>
+  text.replace(new RegExp(`${BEFORE}(${numberPattern(locale)})\\s?%`, 'gu'), (match, number: string) => {
+    const words = spellNumber(parseNumber(number, locale), locale);
+    return words ? `${words} ${locale.percent}` : match;
+  });
+
+const expandUnits = (text: string, locale: SpeechLocale) => {
+  const units = Object.keys(locale.units).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  return text.replace(new RegExp(`${BEFORE}(${numberPattern(locale)})\\s?(${units})${AFTER}`, 'gu'), (match, number: string, unit: string) => {
+    const parsed = parseNumber(number, locale);
+    const [one, many] = locale.units[unit];
+    const words = spellNumber(parsed, locale, { beforeNoun: true, noun: many });
+    return words ? `${words} ${isOne(parsed) ? one : many}` : match;
+  });
+};
+
+// The words that follow are only looked at for gender: "1.500 pessoas",
+// and past "mil" in "2 mil pessoas"
+const expandNumbers = (text: string, locale: SpeechLocale) =>
+  text.replace(
+    new RegExp(`${BEFORE}(${numberPattern(locale)})${AFTER}(?=(?:\\s+(\\p{L}+)(?:\\s+(\\p{L}+))?)?)`, 'gu'),
+    (match, number: string, next?: string, afterNext?: string) => {
+      const scale = next && Object.hasOwn(locale.scales, next) ? locale.scales[next] : undefined;
+      const noun = scale && !scale.takesOf ? afterNext : next;
+      return spellNumber(parseNumber(number, locale), locale, { noun }) ?? match;
+    }
+  );
+
+// Order matters: each pass consumes digits the later, more generic ones
+// would otherwise read on their own
+export const normalizeForSpeech = (text: string, language: string): string => {
+  const locale = SPEECH_LOCALES[language];
+  if (!locale) return text;
+  return [expandAbbreviations, expandDates, expandCurrencies, expandPercentages, expandUnits, expandNumbers]
+    .reduce((result, pass) => pass(result, locale), text);
+};
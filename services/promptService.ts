@@ -0,0 +1,167 @@
+import { Article, BriefingFormat, BriefingOptions, BriefingPreset, BriefingTone } from "../types";
+import { DIALOGUE_HOSTS } from "./dialogueService";
+import { sectionMarker } from "./chapterService";
+import { sourceTag } from "./attributionService";
+
+// Prompts are provider-agnostic: any text model adapter can reuse them.
+
+// Typical news-reading pace, used to turn target minutes into a word budget
+export const WORDS_PER_MINUTE = 150;
+
+export const BRIEFING_LANGUAGES: { code: string; label: string; englishName: string }[] = [
+  { code: 'pt-BR', label: 'Português', englishName: 'Brazilian Portuguese' },
+  { code: 'en-US', label: 'Inglês', englishName: 'American English' },
+  { code: 'es-ES', label: 'Espanhol', englishName: 'Spanish' },
+  { code: 'fr-FR', label: 'Francês', englishName: 'French' },
+];
+
+export const DEFAULT_BRIEFING_OPTIONS: BriefingOptions = {
+  targetMinutes: 3,
+  tone: 'casual',
+  language: 'pt-BR',
+  format: 'standard',
+  mode: 'monologue',
+};
+
+export const BUILT_IN_PRESETS: BriefingPreset[] = [
+  { id: 'builtin-flash', name: 'Flash de Manchetes', builtIn: true, options: { targetMinutes: 2, tone: 'neutral', language: 'pt-BR', format: 'headlines', mode: 'monologue' } },
+  { id: 'builtin-standard', name: 'Briefing Padrão', builtIn: true, options: DEFAULT_BRIEFING_OPTIONS },
+  { id: 'builtin-deep-dive', name: 'Análise Aprofundada', builtIn: true, options: { targetMinutes: 15, tone: 'analytical', language: 'pt-BR', format: 'deep_dive', mode: 'monologue' } },
+];
+
+const TONE_INSTRUCTIONS: Record<BriefingTone, string> = {
+  neutral: 'Use a neutral, factual tone, like a public radio newsreader. Avoid opinions and jokes.',
+  casual: 'Use a conversational, engaging tone suitable for a morning commute listener.',
+  analytical: 'Use a thoughtful, analytical tone: explain context, causes and likely implications.',
+};
+
+const FORMAT_INSTRUCTIONS: Record<BriefingFormat, string> = {
+  headlines: 'Deliver a rapid headline roundup: one or two sentences per story, no deep background.',
+  standard: 'Cover each story with its key facts and smoothly transition between topics.',
+  deep_dive: 'Go in depth on each story: background, key facts, different perspectives and what to watch next.',
+  qa: 'Structure the script as a sequence of questions a curious listener might ask, each followed by a clear spoken answer.',
+};
+
+export const targetWordCount = (options: BriefingOptions) =>
+  Math.round(options.targetMinutes * WORDS_PER_MINUTE);
+
+export const languageName = (code: string) =>
+  BRIEFING_LANGUAGES.find(l => l.code === code)?.englishName ?? code;
+
+// Articles reach the summarizer as plain text; a flagged story carries an
+// extra line the prompt explains
+const PRIORITY_LINE = 'Prioridade: alta';
+
+export const formatArticle = (article: Article) =>
+  [
+    `Título: ${article.title}`,
+    ...(article.priority ? [PRIORITY_LINE] : []),
+    ...(article.mergedFrom?.length ? [`Outras fontes: ${article.mergedFrom.map(s => s.title).join('; ')}`] : []),
+    `Conteúdo: ${article.content}`,
+  ].join('\n');
+
+export const isPriorityArticle = (text: string) =>
+  text.split('\n').some(line => line.trim() === PRIORITY_LINE);
+
+const [HOST_A, HOST_B] = DIALOGUE_HOSTS;
+
+const DIALOGUE_INSTRUCTIONS = `
+    Write the script as a natural conversation between two co-hosts, ${HOST_A} and ${HOST_B}.
+    Put every turn on its own line, starting with the speaker's name and a colon, exactly like:
+    ${HOST_A}: ...
+    ${HOST_B}: ...
+    Use no other speaker names, stage directions or sound cues. Let both hosts contribute
+    facts and reactions; ${HOST_A} opens and closes the show.
+  `;
+
+// An update only needs its share of the full briefing's length
+const MIN_UPDATE_MINUTES = 0.5;
+
+export const updateOptions = (options: BriefingOptions, newCount: number, totalCount: number): BriefingOptions => ({
+  ...options,
+  targetMinutes: Math.max(MIN_UPDATE_MINUTES, Math.round((options.targetMinutes * newCount / totalCount) * 10) / 10),
+});
+
+const updateInstructions = (coveredTitles: string[]) => `
+    This is an update: the listener has just heard a briefing that covered these stories:
+    ${coveredTitles.map(t => `- ${t}`).join('\n    ')}
+    Cover only the articles below. Do not repeat the stories above, though you may briefly connect a new story to one of them.
+  `;
+
+// Map step for articles too long to share one prompt: notes on one piece
+// of an article, kept in its original language for the final script to use
+export const buildCondensePrompt = (text: string, targetWords: number): string => `
+    You are helping a news anchor prepare an audio briefing from a long article.
+    Condense the excerpt below into notes of at most ${targetWords} words.
+    Keep every key fact, number, name, date and quote needed to report the story; drop repetition and filler.
+    Write plain sentences in the excerpt's language, with no markdown or commentary about the task.
+
+    Excerpt:
+    ${text}
+  `;
+
+// Review step: rewrites one paragraph of an otherwise approved script
+export const buildRewritePrompt = (paragraph: string, script: string, options: BriefingOptions): string => `
+    You are editing the script of a spoken news briefing before it is recorded.
+    Rewrite only the paragraph quoted at the end, in ${languageName(options.language)} and about the same length.
+    ${TONE_INSTRUCTIONS[options.tone]}
+    Keep its facts and its place in the script: it must still follow the text before it and lead into the text after it.
+    If the paragraph starts with a speaker name and a colon, keep that exact speaker label.
+    Reply with the new paragraph only, with no markdown, quotes or commentary, written exactly as it should be spoken.
+
+    Full script:
+    ${script}
+
+    Paragraph to rewrite:
+    ${paragraph}
+  `;
+
+// What the summarizer should know besides the articles and options
+export interface SummaryContext {
+  // Stories already heard; the script becomes a short update to append
+  // to that briefing instead of a standalone one
+  coveredTitles?: string[];
+  // 0-based indices of articles that report the same story
+  storyGroups?: number[][];
+}
+
+const storyGroupInstructions = (groups: number[][]) => `
+    Some articles report the same story from different sources:
+    ${groups.map(g => `- Articles ${g.map(i => i + 1).join(', ')}`).join('\n    ')}
+    Cover each such story once, under the marker of its first article only, combining the facts from all of its articles and noting where sources agree or differ.
+  `;
+
+export const buildSummaryPrompt = (
+  articles: string[],
+  options: BriefingOptions = DEFAULT_BRIEFING_OPTIONS,
+  { coveredTitles = [], storyGroups = [] }: SummaryContext = {}
+): string => {
+  const words = targetWordCount(options);
+  const isDialogue = options.mode === 'dialogue';
+  const isUpdate = coveredTitles.length > 0;
+  const hasPriority = articles.some(isPriorityArticle);
+  const opening = isUpdate
+    ? 'Instead of a greeting, open with one short sentence in that language announcing new stories since the last briefing.'
+    : 'Start with a short, friendly greeting in that language.';
+
+  return `
+    You are ${isDialogue ? 'a pair of professional news hosts' : 'a professional news anchor'} preparing a daily audio briefing.
+    I will provide you with several text content pieces.
+    ${isUpdate ? updateInstructions(coveredTitles) : ''}
+    ${storyGroups.length > 0 ? storyGroupInstructions(storyGroups) : ''}
+    Your task:
+    1. Synthesize these articles into a single, cohesive spoken-word ${isUpdate ? 'update segment' : 'script'}.
+    2. ${TONE_INSTRUCTIONS[options.tone]}
+    3. ${FORMAT_INSTRUCTIONS[options.format]}
+    4. Keep the total length around ${Math.round(words * 0.85)}-${Math.round(words * 1.15)} words (about ${options.targetMinutes} minutes read aloud).
+    5. Do not include markdown formatting, bullet points, or special characters that are hard to read aloud (like URLs). Write it exactly as it should be spoken.
+    6. Write the entire script in ${languageName(options.language)}, even if the articles are in another language. ${opening}
+    7. Right before the part that covers each article, put a line containing only its marker, e.g. ${sectionMarker(2)} for article 2. Cover each article (or story) in one continuous part, and put the ${isUpdate ? 'opening sentence' : 'greeting'} before the first marker. Markers are not read aloud, so never mention article numbers in the spoken text.
+    ${hasPriority ? `8. Articles with the line "${PRIORITY_LINE}" are the listener's priority: cover them first and in more depth than the others. Otherwise keep the articles in the given order.` : '8. Keep the articles in the given order.'}
+    9. End every sentence that reports facts with the numbers of the articles it is based on, e.g. ${sourceTag([2])} or ${sourceTag([1, 3])}. Only state what those articles say. Greetings, transitions and the sign-off get no tag. Tags are not read aloud either.
+    ${isDialogue ? DIALOGUE_INSTRUCTIONS : ''}
+
+    Articles:
+    ${articles.map((a, i) => `--- ARTICLE ${i + 1} ---\n${a}\n`).join("\n")}
+  `;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { applyLexicon, exportLexicon, parseLexicon } from './pronunciationService';
+
+describe('parseLexicon', () => {
+  it('reads an exported file back', () => {
+    const rules = [{ term: 'PETR4', spoken: 'Petrobras PN', language: 'pt-BR' }, { term: 'IA', spoken: 'i-a' }];
+    expect(parseLexicon(exportLexicon(rules))).toEqual(rules);
+  });
+
+  it('accepts a bare array and trims terms', () => {
+    expect(parseLexicon('[{"term": " SQL ", "spoken": "sequel", "ignoreCase": true}]')).toEqual([
+      { term: 'SQL', spoken: 'sequel', ignoreCase: true },
+    ]);
+  });
+
+  it.each([
+    ['not JSON', '{rules: [', 'não é um JSON'],
+    ['no rule list', '{"version": 1}', 'lista de regras não encontrada'],
+    ['a null document', 'null', 'lista de regras não encontrada'],
+    ['a rule without spoken', '[{"term": "IA"}]', 'regra 1 precisa de "term" e "spoken"'],
+    ['a blank term', '[{"term": "ok", "spoken": "ok"}, {"term": "  ", "spoken": "x"}]', 'regra 2'],
+    ['a null rule', '[null]', 'regra 1'],
+  ])('rejects %s', (_, json, message) => {
+    expect(() => parseLexicon(json)).toThrow(message);
+  });
+});
+
+describe('applyLexicon', () => {
+  it('replaces whole words only', () => {
+    const rules = [{ term: 'IA', spoken: 'i-a' }];
+    expect(applyLexicon('A IA e a IAB; IA.', rules)).toBe('A i-a e a IAB; i-a.');
+  });
+
+  it('is case-sensitive unless the rule says otherwise', () => {
+    expect(applyLexicon('ia IA', [{ term: 'IA', spoken: 'i-a' }])).toBe('ia i-a');
+    expect(applyLexicon('ia IA', [{ term: 'IA', spoken: 'i-a', ignoreCase: true }])).toBe('i-a i-a');
+  });
+
+  it('prefers the longest term and never rewrites a replacement', () => {
+    const rules = [
+      { term: 'S.A.', spoken: 'sociedade anônima' },
+      { term: 'Vale S.A.', spoken: 'Vale' },
+      { term: 'Vale', spoken: 'Váli' },
+    ];
+    expect(applyLexicon('A Vale S.A. e a S.A.', rules)).toBe('A Vale e a sociedade anônima');
+  });
+
+  it('matches terms with accents and symbols at word boundaries', () => {
+    expect(applyLexicon('Ação da PETR4 e PETR40', [{ term: 'PETR4', spoken: 'Petrobras' }])).toBe('Ação da Petrobras e PETR40');
+    expect(applyLexicon('Ações e ação', [{ term: 'ação', spoken: 'X', ignoreCase: true }])).toBe('Ações e X');
+  });
+});
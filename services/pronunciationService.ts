@@ -0,0 +1,85 @@
+import { PronunciationRule, PronunciationSettings } from "../types";
+import { formatDialogue, parseDialogue } from "./dialogueService";
+import { normalizeForSpeech, termPattern } from "./normalizationService";
+
+// The user's pronunciation dictionary plus language normalization, applied
+// to each chunk right before it is sent to speech synthesis. The transcript
+// and timing keep the script as written.
+
+export const DEFAULT_PRONUNCIATION: PronunciationSettings = {
+  rules: [],
+  normalize: true,
+};
+
+const rulesFor = (rules: PronunciationRule[], language: string) =>
+  rules.filter(r => r.term.trim() && (!r.language || r.language === language));
+
+// One pass over the text, longest terms first, so a replacement is never
+// matched again by a shorter rule
+export const applyLexicon = (text: string, rules: PronunciationRule[]): string => {
+  if (rules.length === 0) return text;
+  const sorted = [...rules].sort((a, b) => b.term.length - a.term.length);
+  const pattern = new RegExp(sorted.map(r => termPattern(r.term)).join('|'), 'giu');
+  return text.replace(pattern, match => {
+    const rule = sorted.find(r => (r.ignoreCase ? r.term.toLowerCase() === match.toLowerCase() : r.term === match));
+    return rule ? rule.spoken : match;
+  });
+};
+
+// Dialogue chunks keep their speaker labels untouched
+export const prepareForSpeech = (
+  text: string,
+  language: string,
+  settings: PronunciationSettings,
+  dialogue = false
+): string => {
+  const rules = rulesFor(settings.rules, language);
+  const speak = (line: string) => {
+    const withLexicon = applyLexicon(line, rules);
+    return settings.normalize ? normalizeForSpeech(withLexicon, language) : withLexicon;
+  };
+  return dialogue
+    ? formatDialogue(parseDialogue(text).map(turn => ({ ...turn, text: speak(turn.text) })))
+    : speak(text);
+};
+
+// --- Import / export ---
+
+const LEXICON_FILE_VERSION = 1;
+
+export const exportLexicon = (rules: PronunciationRule[]) =>
+  JSON.stringify({ version: LEXICON_FILE_VERSION, rules }, null, 2);
+
+// Accepts an exported file or a bare array of rules; throws on anything else
+export const parseLexicon = (json: string): PronunciationRule[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Arquivo de pronúncias inválido: não é um JSON.');
+  }
+  const entries = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+  if (!Array.isArray(entries)) {
+    throw new Error('Arquivo de pronúncias inválido: lista de regras não encontrada.');
+  }
+
+  return entries.map((entry, i) => {
+    const { term, spoken, language, ignoreCase } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof term !== 'string' || typeof spoken !== 'string' || !term.trim()) {
+      throw new Error(`Arquivo de pronúncias inválido: regra ${i + 1} precisa de "term" e "spoken".`);
+    }
+    return {
+      term: term.trim(),
+      spoken: spoken.trim(),
+      ...(typeof language === 'string' && language ? { language } : {}),
+      ...(ignoreCase === true ? { ignoreCase: true } : {}),
+    };
+  });
+};
+
+// Imported rules replace existing ones for the same term and language
+export const mergeLexicon = (existing: PronunciationRule[], imported: PronunciationRule[]) => {
+  const sameRule = (a: PronunciationRule, b: PronunciationRule) =>
+    a.term === b.term && (a.language ?? '') === (b.language ?? '');
+  return [...existing.filter(r => !imported.some(i => sameRule(r, i))), ...imported];
+};
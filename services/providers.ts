@@ -0,0 +1,18 @@
+import { ProviderSettings } from "../types";
+import { registerProvider } from "./briefingProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+
+// Built-in adapters. Importing this module makes them available to createProvider().
+registerProvider('gemini', 'Gemini', createGeminiProvider);
+registerProvider('mock', 'Simulado (offline)', createMockProvider);
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  // Lets CI and offline builds default to the mock backend via BRIEFING_PROVIDER=mock
+  providerId: process.env.BRIEFING_PROVIDER || 'gemini',
+  apiKey: '',
+  summaryModel: '',
+  ttsModel: '',
+};
+
+export { createProvider, listProviders } from "./briefingProvider";
@@ -0,0 +1,56 @@
+import { Article } from "../types";
+
+// Pure queue edits, shared by drag-and-drop and keyboard reordering. The
+// queue order is the order stories are handed to the summarizer.
+
+// Moves the article with `id` to `toIndex`, clamped to the queue
+export const moveArticle = (articles: Article[], id: string, toIndex: number): Article[] => {
+  const from = articles.findIndex(a => a.id === id);
+  if (from === -1) return articles;
+  const to = Math.max(0, Math.min(toIndex, articles.length - 1));
+  if (from === to) return articles;
+  const next = [...articles];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// "Economia, tech, economia" -> ['Economia', 'tech']
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input
+    .split(',')
+    .map(t => t.trim())
+    .filter(t => {
+      const key = t.toLowerCase();
+      if (!t || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const collectTags = (articles: Article[]) =>
+  parseTags(articles.flatMap(a => a.tags ?? []).join(',')).sort((a, b) => a.localeCompare(b));
+
+export const hasTag = (article: Article, tag: string) =>
+  (article.tags ?? []).some(t => t.toLowerCase() === tag.toLowerCase());
+
+// Removed articles with their former positions, for undo
+export interface RemovedArticle {
+  article: Article;
+  index: number;
+}
+
+export const removeArticles = (articles: Article[], ids: string[]): { remaining: Article[]; removed: RemovedArticle[] } => ({
+  remaining: articles.filter(a => !ids.includes(a.id)),
+  removed: articles.flatMap((article, index) => (ids.includes(article.id) ? [{ article, index }] : [])),
+});
+
+// Puts removed articles back where they were, keeping anything added since
+export const restoreArticles = (articles: Article[], removed: RemovedArticle[]): Article[] => {
+  const next = articles.filter(a => !removed.some(r => r.article.id === a.id));
+  [...removed]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ article, index }) => next.splice(Math.min(index, next.length), 0, article));
+  return next;
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+import { withRetry } from './retry';
+import {
+  BriefingError,
+  CancelledError,
+  MissingApiKeyError,
+  NetworkError,
+  QuotaExceededError,
+  SafetyBlockedError,
+  ServiceUnavailableError,
+  classifyError,
+} from './errors';
+
+// An SDK-style error carrying an HTTP status
+const httpError = (status: number, message = `HTTP ${status}`) => Object.assign(new Error(message), { status });
+
+// A provider whose synthesize() fails with the given errors, in order, then succeeds
+const createFailingProvider = (failures: unknown[]) => {
+  const remaining = [...failures];
+  return {
+    synthesize: vi.fn(async (_text: string, _voice: string, _signal?: AbortSignal) => {
+      const failure = remaining.shift();
+      if (failure) throw failure;
+      return new Uint8Array([1, 2, 3]);
+    }),
+  };
+};
+
+// Records the waits instead of sleeping through them
+const recordingSleep = () => {
+  const delays: number[] = [];
+  const sleep = vi.fn(async (ms: number) => {
+    delays.push(ms);
+  });
+  return { sleep, delays };
+};
+
+describe('withRetry', () => {
+  it('retries rate limits and outages with growing backoff, then succeeds', async () => {
+    const provider = createFailingProvider([httpError(429), httpError(503), httpError(503)]);
+    const { sleep, delays } = recordingSleep();
+    const onRetry = vi.fn();
+
+    const pcm = await withRetry(signal => provider.synthesize('Olá', 'Kore', signal), {
+      baseDelayMs: 100,
+      random: () => 1,
+      sleep,
+      onRetry,
+    });
+
+    expect(pcm).toEqual(new Uint8Array([1, 2, 3]));
+    expect(provider.synthesize).toHaveBeenCalledTimes(4);
+    expect(delays).toEqual([100, 200, 400]);
+    expect(onRetry.mock.calls.map(([attempt, , error]) => [attempt, (error as BriefingError).kind]))
+      .toEqual([[1, 'quota'], [2, 'unavailable'], [3, 'unavailable']]);
+  });
+
+  it('waits at least as long as the server asks', async () => {
+    const provider = createFailingProvider([httpError(429, 'Resource exhausted. Please retry in 7s.')]);
+    const { sleep, delays } = recordingSleep();
+    await withRetry(() => provider.synthesize('Olá', 'Kore'), { baseDelayMs: 100, random: () => 0.5, sleep });
+    expect(delays).toEqual([7000]);
+  });
+
+  it('gives up after the last retry with the classified error', async () => {
+    const provider = createFailingProvider(Array.from({ length: 5 }, () => httpError(503)));
+    const { sleep } = recordingSleep();
+    await expect(withRetry(() => provider.synthesize('Olá', 'Kore'), { retries: 2, sleep }))
+      .rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(provider.synthesize).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([
+    ['a bad request', httpError(400, 'Invalid argument'), BriefingError, 'unknown'],
+    ['a rejected key', httpError(400, 'API key not valid'), MissingApiKeyError, 'missing_api_key'],
+    ['a forbidden key', httpError(403), MissingApiKeyError, 'missing_api_key'],
+    ['a safety block', new Error('Response was blocked due to SAFETY'), SafetyBlockedError, 'safety'],
+    ['a bug in our own code', new TypeError("Cannot read properties of undefined (reading 'text')"), BriefingError, 'unknown'],
+  ])('does not retry %s', async (_, failure, errorClass, kind) => {
+    const provider = createFailingProvider([failure]);
+    const { sleep } = recordingSleep();
+    const error = await withRetry(() => provider.synthesize('Olá', 'Kore'), { sleep }).catch(e => e);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.kind).toBe(kind);
+    expect(error.retryable).toBe(false);
+    expect(provider.synthesize).toHaveBeenCalledOnce();
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('stops promptly when aborted during the backoff', async () => {
+    const provider = createFailingProvider([httpError(503), httpError(503)]);
+    const controller = new AbortController();
+    const started = Date.now();
+
+    const result = withRetry(signal => provider.synthesize('Olá', 'Kore', signal), {
+      signal: controller.signal,
+      baseDelayMs: 60_000,
+      random: () => 1,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(provider.synthesize).toHaveBeenCalledOnce();
+  });
+
+  it('does not start when already aborted', async () => {
+    const provider = createFailingProvider([]);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(withRetry(() => provider.synthesize('Olá', 'Kore'), { signal: controller.signal }))
+      .rejects.toBeInstanceOf(CancelledError);
+    expect(provider.synthesize).not.toHaveBeenCalled();
+  });
+
+  it('reports an abort mid-request as a cancellation, not a failure', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn(async () => {
+      controller.abort();
+      throw httpError(503);
+    });
+    await expect(withRetry(operation, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+    expect(operation).toHaveBeenCalledOnce();
+  });
+});
+
+describe('classifyError', () => {
+  it('maps statuses before message text', () => {
+    expect(classifyError(httpError(429))).toBeInstanceOf(QuotaExceededError);
+    expect(classifyError(httpError(500, 'blocked upstream'))).toBeInstanceOf(ServiceUnavailableError);
+    expect(classifyError(httpError(401))).toBeInstanceOf(MissingApiKeyError);
+  });
+
+  it('recognizes network failures and aborts', () => {
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+    expect(classifyError(new TypeError('NetworkError when attempting to fetch resource.'))).toBeInstanceOf(NetworkError);
+    expect(classifyError(Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' }))).toBeInstanceOf(NetworkError);
+    expect(classifyError(new TypeError('x.map is not a function')).kind).toBe('unknown');
+    expect(classifyError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBeInstanceOf(CancelledError);
+  });
+
+  it('passes classified errors through', () => {
+    const error = new SafetyBlockedError();
+    expect(classifyError(error)).toBe(error);
+  });
+});
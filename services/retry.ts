@@ -0,0 +1,69 @@
+import { CancelledError, QuotaExceededError, classifyError } from "./errors";
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  // Injectable for deterministic runs
+  random?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+// Resolves after `ms`, or rejects with CancelledError as soon as `signal` aborts
+export const abortableSleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with "full jitter": a random delay between 0 and the
+// exponential cap, so parallel chunk requests don't retry in lockstep
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number) =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+// Runs `operation`, retrying errors classified as retryable. Whatever is
+// finally thrown is a classified BriefingError.
+export const withRetry = async <T>(
+  operation: (signal?: AbortSignal) => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 20000,
+    signal,
+    onRetry,
+    random = Math.random,
+    sleep = abortableSleep,
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await operation(signal);
+    } catch (raw) {
+      const error = signal?.aborted ? new CancelledError(raw) : classifyError(raw);
+      if (!error.retryable || attempt >= retries) throw error;
+
+      const jittered = backoffDelay(attempt, baseDelayMs, maxDelayMs, random);
+      // Never retry sooner than the server asked us to
+      const delayMs = error instanceof QuotaExceededError && error.retryAfterMs
+        ? Math.max(jittered, error.retryAfterMs)
+        : jittered;
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { ScriptSection } from "./chapterService";
+import { parseDialogue } from "./dialogueService";
+import { WORDS_PER_MINUTE } from "./promptService";
+
+// Optional review step between summarizing and synthesis: the script is
+// shown chapter by chapter, split into paragraphs that can be edited or
+// rewritten one at a time, and only voiced once approved.
+
+export interface ReviewSection {
+  // Same meaning as in ScriptSection
+  articleIndex: number | null;
+  title: string;
+  paragraphs: string[];
+}
+
+// Dialogue turns are one line each; monologue paragraphs are separated by
+// blank lines
+export const splitParagraphs = (text: string, dialogue: boolean) =>
+  (dialogue ? text.split('\n') : text.split(/\n\s*\n/)).map(p => p.trim()).filter(Boolean);
+
+export const toReviewSections = (
+  sections: ScriptSection[],
+  articles: { title: string }[],
+  dialogue: boolean,
+  openingTitle: string
+): ReviewSection[] =>
+  sections.map(section => ({
+    articleIndex: section.articleIndex,
+    title: section.articleIndex !== null ? articles[section.articleIndex]?.title ?? openingTitle : openingTitle,
+    paragraphs: splitParagraphs(section.text, dialogue),
+  }));
+
+// Back to script sections; emptied paragraphs and chapters are dropped
+export const fromReviewSections = (review: ReviewSection[], dialogue: boolean): ScriptSection[] =>
+  review
+    .map(section => ({
+      articleIndex: section.articleIndex,
+      text: section.paragraphs.map(p => p.trim()).filter(Boolean).join(dialogue ? '\n' : '\n\n'),
+    }))
+    .filter(section => section.text);
+
+// Words that will actually be read aloud: speaker labels aren't
+export const countSpokenWords = (script: string) => {
+  const turns = parseDialogue(script);
+  const spoken = turns.length >= 2 ? turns.map(t => t.text).join(' ') : script;
+  return spoken.split(/\s+/).filter(Boolean).length;
+};
+
+export const estimateSpokenSeconds = (words: number) => Math.round((words / WORDS_PER_MINUTE) * 60);
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BriefingSchedule } from '../types';
+import { CATCH_UP_MS, Clock, dueRunAt, nextRunAt, startScheduler } from './scheduleService';
+
+// Local time, so the tests don't depend on the machine's time zone
+const at = (year: number, month: number, day: number, hours = 0, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes).getTime();
+
+// 2025-03-10 is a Monday
+const MONDAY = (hours: number, minutes = 0) => at(2025, 3, 10, hours, minutes);
+const HOUR = 60 * 60 * 1000;
+
+const weekdays: BriefingSchedule = { enabled: true, time: '07:00', days: [1, 2, 3, 4, 5] };
+
+// A clock whose time only moves when the test advances it
+const createFakeClock = (start: number) => {
+  let now = start;
+  let nextHandle = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const handle = nextHandle++;
+      timers.set(handle, { at: now + ms, callback });
+      return handle;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle as number);
+    },
+  };
+  // Moves time forward, firing timers in order as their moment passes
+  const advance = (ms: number) => {
+    const target = now + ms;
+    for (;;) {
+      const due = [...timers.entries()].filter(([, t]) => t.at <= target).sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = target;
+  };
+  return { clock, advance, pendingTimers: () => timers.size };
+};
+
+describe('nextRunAt', () => {
+  it('finds the scheduled time later today', () => {
+    expect(nextRunAt(weekdays, MONDAY(6))).toBe(MONDAY(7));
+  });
+
+  it('skips to the next selected weekday', () => {
+    const friday = at(2025, 3, 14, 8);
+    expect(nextRunAt(weekdays, friday)).toBe(at(2025, 3, 17, 7));
+    expect(nextRunAt({ ...weekdays, days: [3] }, MONDAY(8))).toBe(at(2025, 3, 12, 7));
+  });
+
+  it('has nothing to run without selected days', () => {
+    expect(nextRunAt({ ...weekdays, days: [] }, MONDAY(6))).toBeNull();
+  });
+});
+
+describe('dueRunAt', () => {
+  it('owes a missed run when the app opens shortly afterwards', () => {
+    expect(dueRunAt(weekdays, 0, MONDAY(7, 30))).toBe(MONDAY(7));
+  });
+
+  it('drops a run missed for too long', () => {
+    expect(dueRunAt(weekdays, 0, MONDAY(7) + CATCH_UP_MS + 1)).toBeNull();
+  });
+
+  it('owes nothing once that run was made', () => {
+    expect(dueRunAt(weekdays, MONDAY(7), MONDAY(7, 30))).toBeNull();
+  });
+
+  it('owes nothing when disabled', () => {
+    expect(dueRunAt({ ...weekdays, enabled: false }, 0, MONDAY(7, 30))).toBeNull();
+  });
+});
+
+describe('startScheduler', () => {
+  it('fires at the scheduled time on the next weekday', () => {
+    const { clock, advance } = createFakeClock(at(2025, 3, 14, 8)); // Friday, after the run
+    const onDue = vi.fn();
+    startScheduler(weekdays, { lastRunAt: at(2025, 3, 14, 7), onDue, clock });
+
+    advance(2 * 24 * HOUR); // the weekend
+    expect(onDue).not.toHaveBeenCalled();
+
+    advance(23 * HOUR + 1); // Monday 07:00
+    expect(onDue).toHaveBeenCalledOnce();
+    expect(onDue).toHaveBeenCalledWith(at(2025, 3, 17, 7));
+  });
+
+  it('catches up a run missed while the app was closed, once', () => {
+    const { clock, advance } = createFakeClock(MONDAY(7, 45));
+    const onDue = vi.fn();
+    startScheduler(weekdays, { lastRunAt: at(2025, 3, 7, 7), onDue, clock });
+
+    expect(onDue).toHaveBeenCalledOnce();
+    expect(onDue).toHaveBeenCalledWith(MONDAY(7));
+
+    advance(4 * HOUR);
+    expect(onDue).toHaveBeenCalledOnce();
+  });
+
+  it('does not run again after lastRunAt', () => {
+    const { clock, advance } = createFakeClock(MONDAY(7, 10));
+    const onDue = vi.fn();
+    startScheduler(weekdays, { lastRunAt: MONDAY(7), onDue, clock });
+
+    advance(12 * HOUR);
+    expect(onDue).not.toHaveBeenCalled();
+  });
+
+  it('stops firing and clears its timer when stopped', () => {
+    const { clock, advance, pendingTimers } = createFakeClock(MONDAY(6));
+    const onDue = vi.fn();
+    const stop = startScheduler(weekdays, { lastRunAt: 0, onDue, clock });
+    expect(pendingTimers()).toBe(1);
+
+    stop();
+    expect(pendingTimers()).toBe(0);
+    advance(2 * HOUR);
+    expect(onDue).not.toHaveBeenCalled();
+  });
+
+  it('arms nothing when disabled', () => {
+    const { clock, pendingTimers } = createFakeClock(MONDAY(6));
+    startScheduler({ ...weekdays, enabled: false }, { lastRunAt: 0, onDue: vi.fn(), clock });
+    expect(pendingTimers()).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { BriefingSchedule } from "../types";
+
+// "Prepare my briefing at 07:00 on weekdays". Browsers can't wake a closed
+// page, so the schedule fires while the app is open, and a run missed while
+// it was closed is caught up when it's opened shortly afterwards.
+// Time is read through an injectable clock so this can run on a fake one.
+
+export const DEFAULT_SCHEDULE: BriefingSchedule = {
+  enabled: false,
+  time: '07:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+// How late a missed run may still be caught up
+export const CATCH_UP_MS = 2 * 60 * 60 * 1000;
+// Timers are re-armed at least this often: long timeouts drift or are
+// dropped while the device sleeps
+const MAX_TIMER_MS = 60 * 1000;
+
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: handle => window.clearTimeout(handle as number),
+};
+
+const parseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return { hours: hours || 0, minutes: minutes || 0 };
+};
+
+// Scheduled moment (local time) on the calendar day `dayOffset` days from `now`
+const runOnDay = (schedule: BriefingSchedule, now: number, dayOffset: number) => {
+  const { hours, minutes } = parseTime(schedule.time);
+  const date = new Date(now);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hours, minutes, 0, 0);
+  return schedule.days.includes(date.getDay()) ? date.getTime() : null;
+};
+
+// Most recent scheduled moment at or before `now`, or null
+export const previousRunAt = (schedule: BriefingSchedule, now: number): number | null => {
+  for (let offset = 0; offset >= -7; offset--) {
+    const run = runOnDay(schedule, now, offset);
+    if (run !== null && run <= now) return run;
+  }
+  return null;
+};
+
+// First scheduled moment after `now`, or null if no day is selected
+export const nextRunAt = (schedule: BriefingSchedule, now: number): number | null => {
+  for (let offset = 0; offset <= 7; offset++) {
+    const run = runOnDay(schedule, now, offset);
+    if (run !== null && run > now) return run;
+  }
+  return null;
+};
+
+// Whether a run is owed: the latest scheduled moment hasn't been run yet
+// and is recent enough to still be useful
+export const dueRunAt = (schedule: BriefingSchedule, lastRunAt: number, now: number): number | null => {
+  if (!schedule.enabled) return null;
+  const run = previousRunAt(schedule, now);
+  return run !== null && run > lastRunAt && now - run <= CATCH_UP_MS ? run : null;
+};
+
+// Calls `onDue` with the scheduled time whenever a run comes due, and once
+// on start if one was missed. Returns a function that stops the scheduler.
+export const startScheduler = (
+  schedule: BriefingSchedule,
+  { lastRunAt, onDue, clock = systemClock }: { lastRunAt: number; onDue: (runAt: number) => void; clock?: Clock }
+) => {
+  if (!schedule.enabled) return () => {};
+
+  let last = lastRunAt;
+  let handle: unknown;
+  let stopped = false;
+
+  const check = () => {
+    if (stopped) return;
+    const now = clock.now();
+    const due = dueRunAt(schedule, last, now);
+    if (due !== null) {
+      last = due;
+      onDue(due);
+    }
+    const next = nextRunAt(schedule, now);
+    const wait = next === null ? MAX_TIMER_MS : Math.min(next - now, MAX_TIMER_MS);
+    handle = clock.setTimeout(check, Math.max(0, wait));
+  };
+  check();
+
+  return () => {
+    stopped = true;
+    clock.clearTimeout(handle);
+  };
+};
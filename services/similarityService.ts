@@ -0,0 +1,139 @@
+import { Article } from "../types";
+import { parseTags } from "./queueService";
+
+// Local, offline similarity between queued articles: TF-IDF vectors over
+// title and content, compared by cosine. Pairs above one threshold are the
+// same story (grouped so the briefing covers it once); above a stricter one
+// they're near-duplicates worth merging.
+
+export const STORY_THRESHOLD = 0.35;
+export const DUPLICATE_THRESHOLD = 0.7;
+// Titles say most about what a story is
+const TITLE_WEIGHT = 3;
+const MIN_TOKEN_LENGTH = 3;
+
+const STOPWORDS = new Set([
+  // pt
+  'que', 'para', 'com', 'uma', 'por', 'mais', 'como', 'mas', 'foi', 'ele', 'ela', 'das', 'dos', 'nas', 'nos',
+  'seu', 'sua', 'seus', 'suas', 'sao', 'tem', 'ser', 'esta', 'este', 'isso', 'essa', 'esse', 'entre', 'sobre',
+  'ainda', 'tambem', 'pela', 'pelo', 'apos', 'ate', 'quando', 'muito', 'onde', 'nao', 'sem', 'ano', 'anos', 'disse',
+  // en
+  'the', 'and', 'for', 'that', 'with', 'this', 'from', 'are', 'was', 'were', 'has', 'have', 'had', 'not', 'but',
+  'its', 'his', 'her', 'they', 'their', 'will', 'would', 'said', 'about', 'after', 'into', 'more', 'than', 'also',
+]);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length >= MIN_TOKEN_LENGTH && !STOPWORDS.has(t));
+
+const termCounts = (article: Article) => {
+  const counts = new Map<string, number>();
+  const add = (tokens: string[], weight: number) =>
+    tokens.forEach(t => counts.set(t, (counts.get(t) ?? 0) + weight));
+  add(tokenize(article.title), TITLE_WEIGHT);
+  add(tokenize(article.content), 1);
+  return counts;
+};
+
+// Unit-length TF-IDF vectors, one per article
+export const tfidfVectors = (articles: Article[]): Map<string, number>[] => {
+  const counts = articles.map(termCounts);
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(c => c.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+
+  return counts.map(c => {
+    const vector = new Map<string, number>();
+    let norm = 0;
+    c.forEach((count, term) => {
+      // Smoothed idf, so terms shared by every article still count a little
+      const idf = Math.log((1 + articles.length) / (1 + documentFrequency.get(term)!)) + 1;
+      const weight = (1 + Math.log(count)) * idf;
+      vector.set(term, weight);
+      norm += weight * weight;
+    });
+    norm = Math.sqrt(norm) || 1;
+    vector.forEach((w, term) => vector.set(term, w / norm));
+    return vector;
+  });
+};
+
+export const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((w, term) => {
+    dot += w * (large.get(term) ?? 0);
+  });
+  return dot;
+};
+
+const isDismissed = (a: Article, b: Article) =>
+  Boolean(a.notDuplicateOf?.includes(b.id) || b.notDuplicateOf?.includes(a.id));
+
+export interface DuplicateWarning {
+  // The later article in the queue, flagged as repeating `originalId`
+  id: string;
+  originalId: string;
+  score: number;
+}
+
+export interface QueueAnalysis {
+  // Article ids per story, in queue order; only stories with several sources
+  groups: string[][];
+  duplicates: DuplicateWarning[];
+}
+
+export const analyzeQueue = (articles: Article[]): QueueAnalysis => {
+  const vectors = tfidfVectors(articles);
+
+  // Union-find over same-story pairs
+  const parent = articles.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const duplicates: DuplicateWarning[] = [];
+  for (let i = 0; i < articles.length; i++) {
+    for (let j = i + 1; j < articles.length; j++) {
+      if (isDismissed(articles[i], articles[j])) continue;
+      const score = cosine(vectors[i], vectors[j]);
+      if (score < STORY_THRESHOLD) continue;
+      parent[find(j)] = find(i);
+      // Each article is flagged against its closest earlier match only
+      const existing = duplicates.find(d => d.id === articles[j].id);
+      if (score >= DUPLICATE_THRESHOLD && (!existing || existing.score < score)) {
+        if (existing) duplicates.splice(duplicates.indexOf(existing), 1);
+        duplicates.push({ id: articles[j].id, originalId: articles[i].id, score });
+      }
+    }
+  }
+
+  const byRoot = new Map<number, string[]>();
+  articles.forEach((a, i) => {
+    const root = find(i);
+    byRoot.set(root, [...(byRoot.get(root) ?? []), a.id]);
+  });
+  const groups = Array.from(byRoot.values()).filter(g => g.length > 1);
+
+  return { groups, duplicates };
+};
+
+// Story groups as 0-based indices into `articles`, for the summarizer
+export const storyGroupIndices = (articles: Article[], groups: string[][]): number[][] =>
+  groups
+    .map(g => g.map(id => articles.findIndex(a => a.id === id)).filter(i => i !== -1))
+    .filter(g => g.length > 1);
+
+// Folds `duplicate` into `original`, keeping the original's place in the queue
+export const mergeArticles = (original: Article, duplicate: Article, maxChars: number): Article => ({
+  ...original,
+  content: `${original.content}\n\n${duplicate.content}`.slice(0, maxChars),
+  priority: original.priority || duplicate.priority,
+  tags: parseTags([...(original.tags ?? []), ...(duplicate.tags ?? [])].join(',')),
+  mergedFrom: [
+    ...(original.mergedFrom ?? []),
+    { title: duplicate.title, sourceUrl: duplicate.sourceUrl },
+    ...(duplicate.mergedFrom ?? []),
+  ],
+});
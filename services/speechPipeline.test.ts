@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { synthesizeChunks } from './speechPipeline';
+import { isCancelled } from './errors';
+
+const pcmFor = (text: string) => new TextEncoder().encode(text);
+
+describe('synthesizeChunks', () => {
+  it('delivers every chunk and reports no failures', async () => {
+    const delivered: number[] = [];
+    const failures = await synthesizeChunks(['a', 'b', 'c'], async text => pcmFor(text), {
+      onChunk: index => {
+        delivered.push(index);
+      },
+    });
+    expect(failures).toEqual([]);
+    expect(delivered.sort()).toEqual([0, 1, 2]);
+  });
+
+  it('keeps going past failing chunks and collects their indices', async () => {
+    const provider = vi.fn(async (text: string) => {
+      if (text === 'b' || text === 'd') throw new Error(`falhou ${text}`);
+      return pcmFor(text);
+    });
+    const delivered: number[] = [];
+
+    const failures = await synthesizeChunks(['a', 'b', 'c', 'd', 'e'], provider, {
+      onChunk: index => {
+        delivered.push(index);
+      },
+    });
+
+    expect(failures.map(f => f.index)).toEqual([1, 3]);
+    expect((failures[0].error as Error).message).toBe('falhou b');
+    expect(delivered.sort()).toEqual([0, 2, 4]);
+    expect(provider).toHaveBeenCalledTimes(5);
+  });
+
+  it('retries only the failed chunks ("refazer só o áudio")', async () => {
+    const provider = vi.fn(async (text: string) => pcmFor(text));
+    const failures = await synthesizeChunks(['a', 'b', 'c', 'd'], provider, { indices: [1, 3] });
+    expect(failures).toEqual([]);
+    expect(provider.mock.calls.map(([text]) => text)).toEqual(['b', 'd']);
+  });
+
+  it('fails the chunks not yet started once aborted', async () => {
+    const controller = new AbortController();
+    const provider = vi.fn(async (text: string) => {
+      if (text === 'a') controller.abort();
+      return pcmFor(text);
+    });
+
+    const failures = await synthesizeChunks(['a', 'b', 'c'], provider, { concurrency: 1, signal: controller.signal });
+
+    expect(provider).toHaveBeenCalledOnce();
+    expect(failures.map(f => f.index)).toEqual([1, 2]);
+    expect(failures.every(f => isCancelled(f.error))).toBe(true);
+  });
+
+  it('counts a chunk whose delivery fails as failed', async () => {
+    const failures = await synthesizeChunks(['a', 'b'], async text => pcmFor(text), {
+      onChunk: index => {
+        if (index === 0) throw new Error('decode');
+      },
+    });
+    expect(failures.map(f => f.index)).toEqual([0]);
+  });
+});
@@ -0,0 +1,48 @@
+import { CancelledError } from "./errors";
+
+export interface ChunkFailure {
+  index: number;
+  error: unknown;
+}
+
+interface SynthesizeChunksOptions {
+  // Max requests in flight at once
+  concurrency?: number;
+  // Subset of chunk indices to run, e.g. only the ones that failed last time
+  indices?: number[];
+  // Called as soon as each chunk finishes, in completion order (not index order)
+  onChunk?: (index: number, pcm: Uint8Array) => void | Promise<void>;
+  // Stops handing out chunks; the ones not yet started fail as cancelled
+  signal?: AbortSignal;
+}
+
+// Synthesizes script chunks through a small worker pool. A failing chunk
+// doesn't stop the others; failures are collected so they can be retried.
+export const synthesizeChunks = async (
+  chunks: string[],
+  synthesize: (text: string) => Promise<Uint8Array>,
+  { concurrency = 2, indices, onChunk, signal }: SynthesizeChunksOptions = {}
+): Promise<ChunkFailure[]> => {
+  const pending = indices ? [...indices] : chunks.map((_, i) => i);
+  const failures: ChunkFailure[] = [];
+
+  const worker = async () => {
+    while (pending.length > 0) {
+      // Lowest index first, so the start of the briefing is ready earliest
+      const index = pending.shift()!;
+      if (signal?.aborted) {
+        failures.push({ index, error: new CancelledError() });
+        continue;
+      }
+      try {
+        const pcm = await synthesize(chunks[index]);
+        await onChunk?.(index, pcm);
+      } catch (error) {
+        failures.push({ index, error });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+  return failures.sort((a, b) => a.index - b.index);
+};
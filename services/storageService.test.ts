@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Article, Briefing, TTSVoice, UsageRecord } from '../types';
+import { createBriefingStorage, createIndexedDbBackend, createMemoryBackend } from './storageService';
+
+const article = (id: string): Article => ({ id, title: `Título ${id}`, content: `Texto ${id}.`, timestamp: 0 });
+
+const briefing = (id: string, createdAt: number): Briefing => ({
+  id,
+  title: `Briefing ${id}`,
+  createdAt,
+  voice: TTSVoice.Kore,
+  duration: 1,
+  script: 'Roteiro.',
+  articleIds: ['a'],
+  articleTitles: ['Título a'],
+});
+
+const usage = (id: string, timestamp: number): UsageRecord => ({
+  id,
+  timestamp,
+  providerId: 'mock',
+  model: 'mock',
+  operation: 'summarize',
+  inputTokens: 1,
+  outputTokens: 1,
+  characters: 0,
+  audioSeconds: 0,
+  latencyMs: 1,
+  estimatedCost: 0,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createMemoryBackend', () => {
+  it('round-trips values as copies', async () => {
+    const backend = createMemoryBackend();
+    const queue = [article('a')];
+    await backend.put('state', 'queue', queue);
+    queue[0].title = 'mudou depois';
+
+    const loaded = await backend.get<Article[]>('state', 'queue');
+    expect(loaded).toEqual([article('a')]);
+    loaded![0].title = 'mudou a cópia';
+    expect(await backend.get('state', 'queue')).toEqual([article('a')]);
+  });
+
+  it('keeps stores apart and removes keys', async () => {
+    const backend = createMemoryBackend();
+    await backend.put('briefings', 'x', 1);
+    await backend.put('audio', 'x', 2);
+    await backend.remove('briefings', 'x');
+    expect(await backend.get('briefings', 'x')).toBeUndefined();
+    expect(await backend.getAll('audio')).toEqual([2]);
+  });
+});
+
+describe('createBriefingStorage', () => {
+  it('restores the queue, briefings, audio and settings after a reload', async () => {
+    const backend = createMemoryBackend();
+    const before = createBriefingStorage(backend);
+    const pcm = new Uint8Array([1, 2, 3, 4]);
+    await before.saveQueue([article('a'), article('b')]);
+    await before.saveBriefing(briefing('old', 1), { pcm: new Uint8Array([9]), sampleRate: 24000 });
+    await before.saveBriefing(briefing('new', 2), { pcm, sampleRate: 24000 });
+    await before.saveSetting('reviewScript', true);
+
+    // A new page load reads through a fresh storage over the same data
+    const after = createBriefingStorage(backend);
+    expect(await after.loadQueue()).toEqual([article('a'), article('b')]);
+    expect(await after.loadActiveBriefingId()).toBe('new');
+    expect((await after.listBriefings()).map(b => b.id)).toEqual(['new', 'old']);
+    expect(await after.loadBriefingAudio('new')).toEqual({ pcm, sampleRate: 24000 });
+    expect(await after.loadSetting('reviewScript')).toBe(true);
+    expect(await after.loadSetting('missing')).toBeUndefined();
+  });
+
+  it('starts empty on a first load', async () => {
+    const storage = createBriefingStorage(createMemoryBackend());
+    expect(await storage.loadQueue()).toEqual([]);
+    expect(await storage.loadActiveBriefingId()).toBeUndefined();
+    expect(await storage.listBriefings()).toEqual([]);
+  });
+
+  it('forgets the active briefing when it is deleted', async () => {
+    const storage = createBriefingStorage(createMemoryBackend());
+    await storage.saveBriefing(briefing('b1', 1), { pcm: new Uint8Array([1]), sampleRate: 24000 });
+    await storage.deleteBriefing('b1');
+    expect(await storage.loadActiveBriefingId()).toBeUndefined();
+    expect(await storage.loadBriefingAudio('b1')).toBeUndefined();
+  });
+
+  it('lists usage oldest first and clears it', async () => {
+    const storage = createBriefingStorage(createMemoryBackend());
+    await storage.appendUsage(usage('u2', 2));
+    await storage.appendUsage(usage('u1', 1));
+    expect((await storage.listUsage()).map(r => r.id)).toEqual(['u1', 'u2']);
+    await storage.clearUsage();
+    expect(await storage.listUsage()).toEqual([]);
+  });
+});
+
+// Just enough IndexedDB for one store: every request succeeds, and the
+// transaction then completes or aborts as told
+const stubIndexedDb = (commit: 'complete' | 'abort') => {
+  const fire = (target: Record<string, unknown>, handler: string) =>
+    setTimeout(() => (target[handler] as (() => void) | undefined)?.());
+  const request = (result: unknown) => {
+    const req: Record<string, unknown> = { result };
+    fire(req, 'onsuccess');
+    return req;
+  };
+  const db = {
+    transaction: () => {
+      const tx: Record<string, unknown> = { error: null };
+      tx.objectStore = () => ({
+        put: () => {
+          const req = request(undefined);
+          setTimeout(() => {
+            if (commit === 'abort') tx.error = new DOMException('Quota exceeded', 'QuotaExceededError');
+            fire(tx, commit === 'abort' ? 'onabort' : 'oncomplete');
+          });
+          return req;
+        },
+      });
+      return tx;
+    },
+  };
+  vi.stubGlobal('indexedDB', { open: () => request(db) });
+};
+
+describe('createIndexedDbBackend', () => {
+  it('resolves a write once its transaction completes', async () => {
+    stubIndexedDb('complete');
+    await expect(createIndexedDbBackend().put('audio', 'b1', { pcm: new Uint8Array(4), sampleRate: 24000 })).resolves.toBeUndefined();
+  });
+
+  it('rejects a write whose transaction aborts at commit', async () => {
+    stubIndexedDb('abort');
+    await expect(createIndexedDbBackend().put('audio', 'b1', { pcm: new Uint8Array(4), sampleRate: 24000 }))
+      .rejects.toThrow('Quota exceeded');
+  });
+});
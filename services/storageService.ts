@@ -0,0 +1,197 @@
+import { Article, Briefing, MusicSoundKind, UsageRecord } from "../types";
+
+const DB_NAME = 'commute-briefing';
+const DB_VERSION = 3;
+
+// 'state' holds small singleton values (queue, active briefing id, settings),
+// 'briefings' holds metadata and 'audio' the heavy PCM payloads (and the
+// user's music files), so listing briefings never has to pull audio off disk. 'usage' is the API call log;
+// 'cache' and 'cacheIndex' hold generated content and its LRU bookkeeping.
+export type StoreName = 'state' | 'briefings' | 'audio' | 'usage' | 'cache' | 'cacheIndex';
+const STORE_NAMES: StoreName[] = ['state', 'briefings', 'audio', 'usage', 'cache', 'cacheIndex'];
+
+const QUEUE_KEY = 'queue';
+const ACTIVE_BRIEFING_KEY = 'activeBriefingId';
+const SETTINGS_PREFIX = 'setting:';
+const MUSIC_SOUND_PREFIX = 'music:';
+
+export interface StoredAudio {
+  pcm: Uint8Array;
+  sampleRate: number;
+}
+
+// An uploaded audio file, still encoded
+export interface StoredSound {
+  name: string;
+  data: ArrayBuffer;
+}
+
+// --- Backends ---
+
+export interface StorageBackend {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  put<T>(store: StoreName, key: string, value: T): Promise<void>;
+  remove(store: StoreName, key: string): Promise<void>;
+}
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// A write whose request succeeded can still fail at commit (over quota on a
+// large PCM put, say), so writes only count once the transaction completes
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('IndexedDB transaction aborted.', 'AbortError'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORE_NAMES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab.'));
+  });
+
+export const createIndexedDbBackend = (): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    if (!dbPromise) dbPromise = openDatabase();
+    const db = await dbPromise;
+    const tx = db.transaction(store, mode);
+    const request = promisifyRequest(run(tx.objectStore(store)));
+    if (mode === 'readonly') return request;
+    const [result] = await Promise.all([request, promisifyTransaction(tx)]);
+    return result;
+  };
+
+  return {
+    get: <T>(store: StoreName, key: string) =>
+      withStore(store, 'readonly', s => s.get(key)) as Promise<T | undefined>,
+    getAll: <T>(store: StoreName) =>
+      withStore(store, 'readonly', s => s.getAll()) as Promise<T[]>,
+    put: async (store, key, value) => {
+      await withStore(store, 'readwrite', s => s.put(value, key));
+    },
+    remove: async (store, key) => {
+      await withStore(store, 'readwrite', s => s.delete(key));
+    },
+  };
+};
+
+// In-memory backend used when IndexedDB is unavailable (tests, private mode).
+// Values are cloned on the way in and out to mimic structured-clone semantics.
+export const createMemoryBackend = (): StorageBackend => {
+  const stores = new Map<StoreName, Map<string, unknown>>(
+    STORE_NAMES.map(name => [name, new Map()])
+  );
+
+  return {
+    get: async <T>(store: StoreName, key: string) => {
+      const value = stores.get(store)!.get(key);
+      return value === undefined ? undefined : structuredClone(value as T);
+    },
+    getAll: async <T>(store: StoreName) =>
+      Array.from(stores.get(store)!.values(), v => structuredClone(v as T)),
+    put: async (store, key, value) => {
+      stores.get(store)!.set(key, structuredClone(value));
+    },
+    remove: async (store, key) => {
+      stores.get(store)!.delete(key);
+    },
+  };
+};
+
+// --- Briefing Storage ---
+
+export const createBriefingStorage = (backend: StorageBackend) => ({
+  loadQueue: async (): Promise<Article[]> =>
+    (await backend.get<Article[]>('state', QUEUE_KEY)) ?? [],
+
+  saveQueue: (articles: Article[]) => backend.put('state', QUEUE_KEY, articles),
+
+  saveBriefing: async (briefing: Briefing, audio: StoredAudio) => {
+    // Audio first: a briefing record without audio would be unplayable
+    await backend.put('audio', briefing.id, audio);
+    await backend.put('briefings', briefing.id, briefing);
+    await backend.put('state', ACTIVE_BRIEFING_KEY, briefing.id);
+  },
+
+  // Newest first
+  listBriefings: async (): Promise<Briefing[]> => {
+    const briefings = await backend.getAll<Briefing>('briefings');
+    return briefings.sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  loadBriefingAudio: (id: string) => backend.get<StoredAudio>('audio', id),
+
+  renameBriefing: async (id: string, title: string): Promise<Briefing | null> => {
+    const briefing = await backend.get<Briefing>('briefings', id);
+    if (!briefing) return null;
+    const renamed = { ...briefing, title };
+    await backend.put('briefings', id, renamed);
+    return renamed;
+  },
+
+  deleteBriefing: async (id: string) => {
+    await backend.remove('briefings', id);
+    await backend.remove('audio', id);
+    if ((await backend.get<string>('state', ACTIVE_BRIEFING_KEY)) === id) {
+      await backend.remove('state', ACTIVE_BRIEFING_KEY);
+    }
+  },
+
+  loadActiveBriefingId: () => backend.get<string>('state', ACTIVE_BRIEFING_KEY),
+
+  setActiveBriefingId: (id: string) => backend.put('state', ACTIVE_BRIEFING_KEY, id),
+
+  clearActiveBriefing: () => backend.remove('state', ACTIVE_BRIEFING_KEY),
+
+  appendUsage: (record: UsageRecord) => backend.put('usage', record.id, record),
+
+  // Oldest first
+  listUsage: async (): Promise<UsageRecord[]> => {
+    const records = await backend.getAll<UsageRecord>('usage');
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  },
+
+  clearUsage: async () => {
+    const records = await backend.getAll<UsageRecord>('usage');
+    await Promise.all(records.map(r => backend.remove('usage', r.id)));
+  },
+
+  loadSetting: <T>(key: string) => backend.get<T>('state', SETTINGS_PREFIX + key),
+
+  saveSetting: <T>(key: string, value: T) => backend.put('state', SETTINGS_PREFIX + key, value),
+
+  loadMusicSound: (kind: MusicSoundKind) => backend.get<StoredSound>('audio', MUSIC_SOUND_PREFIX + kind),
+
+  saveMusicSound: (kind: MusicSoundKind, sound: StoredSound) => backend.put('audio', MUSIC_SOUND_PREFIX + kind, sound),
+
+  removeMusicSound: (kind: MusicSoundKind) => backend.remove('audio', MUSIC_SOUND_PREFIX + kind),
+});
+
+export type BriefingStorage = ReturnType<typeof createBriefingStorage>;
+
+export const storageBackend: StorageBackend =
+  typeof indexedDB === 'undefined' ? createMemoryBackend() : createIndexedDbBackend();
+
+export const storage: BriefingStorage = createBriefingStorage(storageBackend);
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { StretchJob, createStretcher, runStretchJob, stretchPlan, timeStretch } from './timeStretch';
+
+// Just enough of AudioBuffer and its context for the stretcher
+const createBuffer = (channels: number, length: number, sampleRate: number) => {
+  const data = Array.from({ length: channels }, () => new Float32Array(length));
+  return {
+    numberOfChannels: channels,
+    length,
+    sampleRate,
+    getChannelData: (c: number) => data[c],
+    copyToChannel: (samples: Float32Array, c: number) => data[c].set(samples.subarray(0, length)),
+  } as unknown as AudioBuffer;
+};
+const ctx = { createBuffer } as unknown as BaseAudioContext;
+
+const tone = (length: number) => {
+  const buffer = createBuffer(1, length, 24000);
+  buffer.getChannelData(0).forEach((_, i, samples) => (samples[i] = Math.sin(i / 10)));
+  return buffer;
+};
+
+// Answers jobs asynchronously, as a real worker would, and records what it was sent
+const createFakeWorker = () => {
+  const worker = {
+    onmessage: null as ((event: MessageEvent<StretchJob>) => void) | null,
+    onerror: null as ((event: ErrorEvent) => void) | null,
+    transfers: [] as Transferable[][],
+    terminate: vi.fn(),
+    postMessage(job: StretchJob, transfer: Transferable[]) {
+      worker.transfers.push(transfer);
+      setTimeout(() => worker.onmessage?.({ data: runStretchJob(job) } as MessageEvent<StretchJob>));
+    },
+  };
+  return worker;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('stretchPlan', () => {
+  it('splits speed into tempo and a pitch-setting rate', () => {
+    expect(stretchPlan(1.5, 0)).toEqual({ tempo: 1.5, rate: 1 });
+    const { tempo, rate } = stretchPlan(1, 1200);
+    expect(rate).toBe(2);
+    expect(tempo).toBe(0.5);
+  });
+});
+
+describe('createStretcher', () => {
+  it('stretches in the worker with copies of the samples, leaving the source intact', async () => {
+    vi.stubGlobal('Worker', class {});
+    const worker = createFakeWorker();
+    const stretcher = createStretcher(() => worker as unknown as Worker);
+    const source = tone(24000);
+    const original = source.getChannelData(0).slice();
+
+    const result = await stretcher.stretch(ctx, source, 1.5);
+
+    expect(result.length).toBe(16000);
+    expect(Array.from(result.getChannelData(0))).toEqual(Array.from(timeStretch(original, 1.5)));
+    expect(source.getChannelData(0)).toEqual(original);
+    expect(worker.transfers[0]).toHaveLength(1);
+    expect(worker.transfers[0][0]).not.toBe(source.getChannelData(0).buffer);
+  });
+
+  it('matches each answer to its job when several are in flight', async () => {
+    vi.stubGlobal('Worker', class {});
+    const stretcher = createStretcher(() => createFakeWorker() as unknown as Worker);
+    const [slow, fast] = await Promise.all([stretcher.stretch(ctx, tone(4800), 0.75), stretcher.stretch(ctx, tone(4800), 2)]);
+    expect([slow.length, fast.length]).toEqual([6400, 2400]);
+  });
+
+  it('rejects pending jobs when the worker fails and starts a fresh one next time', async () => {
+    vi.stubGlobal('Worker', class {});
+    const broken = { ...createFakeWorker(), postMessage: () => setTimeout(() => broken.onerror?.({ message: 'boom' } as ErrorEvent)) };
+    const workers = [broken, createFakeWorker()];
+    const createWorker = vi.fn(() => workers.shift() as unknown as Worker);
+    const stretcher = createStretcher(createWorker);
+
+    await expect(stretcher.stretch(ctx, tone(4800), 1.5)).rejects.toThrow('boom');
+    expect(broken.terminate).toHaveBeenCalled();
+    expect((await stretcher.stretch(ctx, tone(4800), 1.5)).length).toBe(3200);
+    expect(createWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('stretches in place where workers are unavailable', async () => {
+    const createWorker = vi.fn();
+    const result = await createStretcher(createWorker).stretch(ctx, tone(4800), 2);
+    expect(result.length).toBe(2400);
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+// WSOLA (waveform-similarity overlap-add) time stretching: changes tempo
+// without changing pitch. Pitch is shifted separately by resampling at
+// playback (playbackRate/detune), with the tempo pre-compensated here.
+
+const FRAME_SIZE = 1024; // ~43ms at 24kHz, a good fit for speech
+const SYNTHESIS_HOP = FRAME_SIZE / 2;
+const OVERLAP = FRAME_SIZE / 2;
+// How far from the nominal position a frame may be moved to line up waveforms
+const SEARCH_TOLERANCE = 256;
+// Decimation steps keep the similarity search cheap on long briefings
+const SEARCH_STEP = 4;
+const CORRELATION_STEP = 8;
+
+const hannWindow = (() => {
+  const w = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+  }
+  return w;
+})();
+
+// Splits a combined speed/pitch setting into the tempo to pre-render and the
+// playback rate to resample at: tempo × rate = speed, and rate sets pitch.
+export const stretchPlan = (speed: number, pitchCents: number) => {
+  const rate = Math.pow(2, pitchCents / 1200);
+  return { tempo: speed / rate, rate };
+};
+
+// Returns samples that play `tempo` times faster (tempo > 1 shortens)
+export const timeStretch = (input: Float32Array, tempo: number): Float32Array => {
+  const outputLength = Math.round(input.length / tempo);
+  if (Math.abs(tempo - 1) < 1e-3 || input.length < FRAME_SIZE) {
+    return input.slice(0, outputLength);
+  }
+
+  const analysisHop = SYNTHESIS_HOP * tempo;
+  const output = new Float32Array(outputLength + FRAME_SIZE);
+  const norm = new Float32Array(outputLength + FRAME_SIZE);
+  const sampleAt = (i: number) => (i >= 0 && i < input.length ? input[i] : 0);
+
+  let previousPos = 0;
+  for (let k = 0; k * SYNTHESIS_HOP < outputLength; k++) {
+    const nominal = Math.round(k * analysisHop);
+    let pos = nominal;
+
+    const target = previousPos + SYNTHESIS_HOP;
+    if (k > 0 && target + OVERLAP <= input.length) {
+      // Find the frame start whose beginning best continues the previous frame
+      let bestScore = -Infinity;
+      const from = Math.max(0, nominal - SEARCH_TOLERANCE);
+      const to = Math.min(input.length - OVERLAP, nominal + SEARCH_TOLERANCE);
+      for (let candidate = from; candidate <= to; candidate += SEARCH_STEP) {
+        let score = 0;
+        for (let j = 0; j < OVERLAP; j += CORRELATION_STEP) {
+          score += input[candidate + j] * input[target + j];
+        }
+        if (score > bestScore) {
+          bestScore = score;
+          pos = candidate;
+        }
+      }
+    }
+
+    const outPos = k * SYNTHESIS_HOP;
+    for (let j = 0; j < FRAME_SIZE; j++) {
+      output[outPos + j] += sampleAt(pos + j) * hannWindow[j];
+      norm[outPos + j] += hannWindow[j];
+    }
+    previousPos = pos;
+  }
+
+  for (let i = 0; i < outputLength; i++) {
+    if (norm[i] > 1e-3) output[i] /= norm[i];
+  }
+  return output.subarray(0, outputLength);
+};
+
+const toAudioBuffer = (ctx: BaseAudioContext, channels: Float32Array[], sampleRate: number): AudioBuffer => {
+  const result = ctx.createBuffer(channels.length, Math.max(1, channels[0]?.length ?? 0), sampleRate);
+  channels.forEach((samples, c) => result.copyToChannel(samples, c));
+  return result;
+};
+
+export const timeStretchBuffer = (ctx: BaseAudioContext, buffer: AudioBuffer, tempo: number): AudioBuffer => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => timeStretch(buffer.getChannelData(c), tempo));
+  return toAudioBuffer(ctx, channels, buffer.sampleRate);
+};
+
+// --- Off the main thread ---
+
+// A whole restored briefing takes seconds to stretch, so the player runs
+// WSOLA in a worker. The channel data goes over as transferables both ways.
+
+export interface StretchJob {
+  id: number;
+  tempo: number;
+  channels: Float32Array[];
+}
+
+// What the worker does with each job (see timeStretchWorker.ts)
+export const runStretchJob = ({ id, tempo, channels }: StretchJob): StretchJob => ({
+  id,
+  tempo,
+  channels: channels.map(samples => timeStretch(samples, tempo)),
+});
+
+export interface Stretcher {
+  stretch: (ctx: BaseAudioContext, buffer: AudioBuffer, tempo: number) => Promise<AudioBuffer>;
+  dispose: () => void;
+}
+
+// Without Worker support (e.g. in tests) it stretches in place
+export const createStretcher = (
+  createWorker: () => Worker = () => new Worker(new URL('./timeStretchWorker.ts', import.meta.url), { type: 'module' })
+): Stretcher => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (channels: Float32Array[]) => void; reject: (error: unknown) => void }>();
+
+  const failAll = (error: unknown) => {
+    pending.forEach(job => job.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  const workerFor = () => {
+    if (!worker) {
+      worker = createWorker();
+      worker.onmessage = (event: MessageEvent<StretchJob>) => {
+        pending.get(event.data.id)?.resolve(event.data.channels);
+        pending.delete(event.data.id);
+      };
+      worker.onerror = event => failAll(new Error(event.message || 'Falha ao ajustar a velocidade do áudio.'));
+    }
+    return worker;
+  };
+
+  return {
+    stretch: async (ctx, buffer, tempo) => {
+      if (typeof Worker === 'undefined') return timeStretchBuffer(ctx, buffer, tempo);
+      // Copies: transferring the buffer's own data would empty it
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+      const id = nextId++;
+      const stretched = await new Promise<Float32Array[]>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        workerFor().postMessage({ id, tempo, channels } satisfies StretchJob, channels.map(samples => samples.buffer));
+      });
+      return toAudioBuffer(ctx, stretched, buffer.sampleRate);
+    },
+    dispose: () => failAll(new Error('Stretcher disposed')),
+  };
+};
@@ -0,0 +1,7 @@
+import { StretchJob, runStretchJob } from "./timeStretch";
+
+// Worker entry for createStretcher: one job per message, answered in order
+self.onmessage = (event: MessageEvent<StretchJob>) => {
+  const result = runStretchJob(event.data);
+  self.postMessage(result, { transfer: result.channels.map(samples => samples.buffer) });
+};
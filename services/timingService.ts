@@ -0,0 +1,51 @@
+import { TranscriptSegment } from "../types";
+import { estimateSegments } from "./transcriptService";
+import { parseDialogue } from "./dialogueService";
+
+// Builds the sentence timing map for a briefing. Each chunk's real audio
+// duration is known exactly, so estimation error never crosses a chunk
+// boundary; within a chunk, time is shared out by character count.
+export const buildSegments = (chunks: string[], durations: number[]): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let offset = 0;
+
+  chunks.forEach((chunk, i) => {
+    const duration = durations[i];
+    if (duration === undefined) return;
+
+    const turns = parseDialogue(chunk);
+    if (turns.length > 0) {
+      // Dialogue: time the spoken text only, keep the speaker on each sentence
+      const totalChars = turns.reduce((sum, t) => sum + t.text.length, 0);
+      let cursor = offset;
+      turns.forEach(turn => {
+        const turnDuration = totalChars > 0 ? (turn.text.length / totalChars) * duration : 0;
+        estimateSegments(turn.text, turnDuration).forEach(segment => {
+          segments.push({ ...segment, start: cursor + segment.start, end: cursor + segment.end, speaker: turn.speaker });
+        });
+        cursor += turnDuration;
+      });
+    } else {
+      estimateSegments(chunk, duration).forEach(segment => {
+        segments.push({ ...segment, start: offset + segment.start, end: offset + segment.end });
+      });
+    }
+
+    offset += duration;
+  });
+
+  return segments;
+};
+
+// Index of the segment playing at `position`, or -1
+export const findSegmentIndex = (segments: TranscriptSegment[], position: number) => {
+  let low = 0;
+  let high = segments.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (position < segments[mid].start) high = mid - 1;
+    else if (position >= segments[mid].end) low = mid + 1;
+    else return mid;
+  }
+  return -1;
+};
@@ -0,0 +1,55 @@
+import { TranscriptSegment } from "../types";
+
+// Splits a spoken script into sentences, keeping terminal punctuation.
+// Paragraph breaks always end a sentence, even without punctuation; a period
+// only ends one when followed by whitespace, so "3.5%" stays intact.
+export const splitSentences = (text: string): string[] =>
+  text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.replace(/\s+/g, ' ').trim().split(/(?<=[.!?…]["'”’)]*)\s+/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+// Without word-level timestamps from the TTS model, approximate each
+// sentence's position by its share of the script's characters.
+export const estimateSegments = (text: string, duration: number): TranscriptSegment[] => {
+  const sentences = splitSentences(text);
+  const totalChars = sentences.reduce((sum, s) => sum + s.length, 0);
+  if (totalChars === 0) return [];
+
+  let cursor = 0;
+  return sentences.map(sentence => {
+    const start = cursor;
+    cursor += (sentence.length / totalChars) * duration;
+    return { text: sentence, start, end: cursor };
+  });
+};
+
+// Packs sentences into TTS-sized chunks, preferring paragraph boundaries.
+// The first chunk is kept short so playback can start as soon as possible.
+export const chunkScript = (
+  text: string,
+  { firstChunkChars = 300, maxChunkChars = 1200 }: { firstChunkChars?: number; maxChunkChars?: number } = {}
+): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+
+  const limit = () => (chunks.length === 0 ? firstChunkChars : maxChunkChars);
+  const flush = () => {
+    if (current) chunks.push(current);
+    current = '';
+  };
+
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    splitSentences(paragraph).forEach((sentence, i) => {
+      if (current && current.length + sentence.length + 1 > limit()) flush();
+      const separator = i === 0 ? '\n\n' : ' ';
+      current = current ? `${current}${separator}${sentence}` : sentence;
+    });
+    // Close the chunk at the paragraph break once it's reasonably full
+    if (current.length >= limit() / 2) flush();
+  });
+  flush();
+
+  return chunks;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { Article, Briefing, TTSVoice } from '../types';
+import { appendUpdate, articleVersion, articlesMissingFrom } from './updateService';
+
+const article = (id: string, content = `Texto de ${id}.`): Article => ({ id, title: `Título ${id}`, content, timestamp: 0 });
+
+const briefingOf = (articles: Article[], withVersions = true): Briefing => ({
+  id: 'b1',
+  title: 'Briefing',
+  createdAt: 0,
+  voice: TTSVoice.Kore,
+  duration: 10,
+  script: 'Roteiro.',
+  segments: [],
+  articleIds: articles.map(a => a.id),
+  articleTitles: articles.map(a => a.title),
+  ...(withVersions ? { articleVersions: articles.map(articleVersion) } : {}),
+});
+
+describe('articlesMissingFrom', () => {
+  it('returns articles added after the briefing, in queue order', () => {
+    const [a, b, c] = [article('a'), article('b'), article('c')];
+    expect(articlesMissingFrom(briefingOf([b]), [a, b, c])).toEqual([a, c]);
+  });
+
+  it('returns articles whose text changed since they were narrated', () => {
+    const a = article('a');
+    const edited = { ...a, content: 'Texto corrigido.' };
+    expect(articlesMissingFrom(briefingOf([a]), [edited])).toEqual([edited]);
+    expect(articlesMissingFrom(briefingOf([a]), [{ ...a, title: 'Novo título' }])).toHaveLength(1);
+  });
+
+  it('ignores bookkeeping such as tags, priority and briefedAt', () => {
+    const a = article('a');
+    expect(articlesMissingFrom(briefingOf([a]), [{ ...a, tags: ['x'], priority: true, briefedAt: 5 }])).toEqual([]);
+  });
+
+  it('goes by id alone for briefings saved without versions', () => {
+    const a = article('a');
+    expect(articlesMissingFrom(briefingOf([a], false), [{ ...a, content: 'Outro texto.' }])).toEqual([]);
+  });
+
+  it('compares with the newest narrated version after an update', () => {
+    const a = article('a');
+    const edited = { ...a, content: 'Texto corrigido.' };
+    const update = { script: 'Novidade.', duration: 2, segments: [], chapters: [], articleIds: ['a'], articleTitles: [a.title], articleVersions: [articleVersion(edited)] };
+    const updated = appendUpdate(briefingOf([a], false), update, 1);
+    expect(updated.articleVersions).toEqual(['', articleVersion(edited)]);
+    expect(articlesMissingFrom(updated, [edited])).toEqual([]);
+    expect(articlesMissingFrom(updated, [a])).toEqual([a]);
+  });
+});
@@ -0,0 +1,67 @@
+import { Article, Briefing, Chapter, TranscriptSegment } from "../types";
+import { buildSegments } from "./timingService";
+
+// Incremental briefings: stories added to the queue after a briefing was
+// made are voiced as a short update and appended to it, instead of
+// regenerating everything.
+
+// FNV-1a over what the summarizer narrates. Cheap and synchronous, since
+// it runs on every render; tags, priority and briefedAt don't count.
+export const articleVersion = ({ title, content }: Pick<Article, 'title' | 'content'>) => {
+  const text = `${title}\u0000${content}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+// Queue articles the briefing doesn't cover yet, or only in an older
+// version because they were edited since, in queue order
+export const articlesMissingFrom = (briefing: Briefing, articles: Article[]) => {
+  // Later entries win: an article edited and updated again was narrated
+  // last in its newest version. Empty means the version isn't known.
+  const narrated = new Map<string, string>();
+  briefing.articleIds.forEach((id, i) => narrated.set(id, briefing.articleVersions?.[i] ?? ''));
+  return articles.filter(a => {
+    const version = narrated.get(a.id);
+    return version === undefined || (version !== '' && version !== articleVersion(a));
+  });
+};
+
+export const markBriefed = (articles: Article[], ids: string[], at: number): Article[] =>
+  articles.map(a => (ids.includes(a.id) && !a.briefedAt ? { ...a, briefedAt: at } : a));
+
+// Briefings saved before timing maps existed get one estimated from the script
+export const briefingSegments = (briefing: Briefing) =>
+  briefing.segments ?? buildSegments([briefing.script], [briefing.duration]);
+
+export const shiftSegments = (segments: TranscriptSegment[], offset: number): TranscriptSegment[] =>
+  segments.map(s => ({ ...s, start: s.start + offset, end: s.end + offset }));
+
+export const shiftChapters = (chapters: Chapter[], offset: number): Chapter[] =>
+  chapters.map(c => ({ ...c, start: c.start + offset }));
+
+export interface BriefingUpdate {
+  script: string;
+  duration: number;
+  // Timed from the start of the update
+  segments: TranscriptSegment[];
+  chapters: Chapter[];
+  articleIds: string[];
+  articleTitles: string[];
+  articleVersions: string[];
+}
+
+export const joinScripts = (base: string, update: string) => `${base}\n\n${update}`;
+
+// The briefing with the update played right after its end
+export const appendUpdate = (base: Briefing, update: BriefingUpdate, updatedAt: number): Briefing => ({
+  ...base,
+  duration: base.duration + update.duration,
+  script: joinScripts(base.script, update.script),
+  segments: [...briefingSegments(base), ...shiftSegments(update.segments, base.duration)],
+  chapters: [...(base.chapters ?? []), ...shiftChapters(update.chapters, base.duration)],
+  articleIds: [...base.articleIds, ...update.articleIds],
+  articleTitles: [...base.articleTitles, ...update.articleTitles],
+  articleVersions: [...(base.articleVersions ?? base.articleIds.map(() => '')), ...update.articleVersions],
+  updatedAt,
+});
@@ -0,0 +1,135 @@
+import { BriefingOptions, UsageBudget, UsageRecord } from "../types";
+import { ProviderUsage } from "./briefingProvider";
+import { WORDS_PER_MINUTE, targetWordCount } from "./promptService";
+
+// Prices are a local snapshot of the vendor's public list prices (USD per
+// million tokens), so every cost here is an estimate. Unknown models count
+// as free rather than guessing.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-2.5-pro-preview-tts': { input: 1, output: 20 },
+};
+
+// Rough rule of thumb for Latin-script text
+const CHARS_PER_TOKEN = 4;
+// Gemini bills generated speech at a fixed token rate
+const AUDIO_TOKENS_PER_SECOND = 25;
+// Script tokens per spoken word, including punctuation
+const TOKENS_PER_WORD = 1.4;
+
+export const DEFAULT_BUDGET: UsageBudget = {
+  dailyLimit: 0,
+  monthlyLimit: 0,
+  action: 'warn',
+};
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number) => {
+  const price = MODEL_PRICING[model];
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+export const toUsageRecord = (providerId: string, usage: ProviderUsage, id: string, timestamp: number): UsageRecord => ({
+  ...usage,
+  id,
+  timestamp,
+  providerId,
+  estimatedCost: estimateCost(usage.model, usage.inputTokens, usage.outputTokens),
+});
+
+// Upper-bound guess of what one briefing will cost, before any call is made
+export const estimateGenerationCost = (
+  models: { summary: string; tts: string },
+  promptChars: number,
+  options: BriefingOptions
+) => {
+  const scriptTokens = Math.round(targetWordCount(options) * TOKENS_PER_WORD);
+  const audioTokens = options.targetMinutes * 60 * AUDIO_TOKENS_PER_SECOND;
+  return estimateCost(models.summary, Math.ceil(promptChars / CHARS_PER_TOKEN), scriptTokens)
+    + estimateCost(models.tts, scriptTokens, audioTokens);
+};
+
+// Speech alone, for voicing again chunks of a script that already exists
+export const estimateSynthesisCost = (ttsModel: string, texts: string[]) => {
+  const chars = texts.reduce((sum, text) => sum + text.length, 0);
+  const words = texts.reduce((sum, text) => sum + text.split(/\s+/).filter(Boolean).length, 0);
+  const audioTokens = Math.round((words / WORDS_PER_MINUTE) * 60 * AUDIO_TOKENS_PER_SECOND);
+  return estimateCost(ttsModel, Math.ceil(chars / CHARS_PER_TOKEN), audioTokens);
+};
+
+// --- Totals ---
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  audioSeconds: number;
+  latencyMs: number;
+  cost: number;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0, inputTokens: 0, outputTokens: 0, characters: 0, audioSeconds: 0, latencyMs: 0, cost: 0,
+});
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce((totals, r) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + r.inputTokens,
+    outputTokens: totals.outputTokens + r.outputTokens,
+    characters: totals.characters + r.characters,
+    audioSeconds: totals.audioSeconds + r.audioSeconds,
+    latencyMs: totals.latencyMs + r.latencyMs,
+    cost: totals.cost + r.estimatedCost,
+  }), emptyTotals());
+
+// Local calendar boundaries
+export const startOfDay = (now: number) => new Date(now).setHours(0, 0, 0, 0);
+
+export const startOfMonth = (now: number) => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const usageSince = (records: UsageRecord[], since: number) =>
+  records.filter(r => r.timestamp >= since);
+
+// Per-day totals for the current month, oldest first, days without calls omitted
+export const dailyUsage = (records: UsageRecord[], now: number) => {
+  const days = new Map<number, UsageRecord[]>();
+  usageSince(records, startOfMonth(now)).forEach(r => {
+    const day = startOfDay(r.timestamp);
+    days.set(day, [...(days.get(day) ?? []), r]);
+  });
+  return Array.from(days, ([day, dayRecords]) => ({ day, totals: sumUsage(dayRecords) }))
+    .sort((a, b) => a.day - b.day);
+};
+
+// --- Budget ---
+
+export interface BudgetCheck {
+  // Which limit the next generation would cross, if any
+  exceeded: 'daily' | 'monthly' | null;
+  spentToday: number;
+  spentThisMonth: number;
+}
+
+export const checkBudget = (budget: UsageBudget, records: UsageRecord[], estimate: number, now: number): BudgetCheck => {
+  const spentToday = sumUsage(usageSince(records, startOfDay(now))).cost;
+  const spentThisMonth = sumUsage(usageSince(records, startOfMonth(now))).cost;
+  const exceeded = budget.dailyLimit > 0 && spentToday + estimate > budget.dailyLimit
+    ? 'daily'
+    : budget.monthlyLimit > 0 && spentThisMonth + estimate > budget.monthlyLimit
+      ? 'monthly'
+      : null;
+  return { exceeded, spentToday, spentThisMonth };
+};
+
+export const formatCost = (usd: number) =>
+  `US$ ${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
@@ -3,6 +3,16 @@ export interface Article {
   title: string;
   content: string;
   timestamp: number;
+  sourceUrl?: string;
+  // When a briefing first covered this article
+  briefedAt?: number;
+  // Asks the summarizer to lead with this story and give it more time
+  priority?: boolean;
+  tags?: string[];
+  // Articles the user confirmed are not duplicates of this one
+  notDuplicateOf?: string[];
+  // Other sources of the same story folded into this article
+  mergedFrom?: { title: string; sourceUrl?: string }[];
 }
 
 export enum TTSVoice {
@@ -13,12 +23,188 @@ export enum TTSVoice {
   Zephyr = 'Zephyr'
 }
 
+export type BriefingTone = 'neutral' | 'casual' | 'analytical';
+
+export type BriefingFormat = 'headlines' | 'standard' | 'deep_dive' | 'qa';
+
+// 'dialogue' is a two-host conversation, voiced with one voice per host
+export type BriefingMode = 'monologue' | 'dialogue';
+
+// How the summarizer should shape the script
+export interface BriefingOptions {
+  targetMinutes: number;
+  tone: BriefingTone;
+  language: string; // BCP 47, e.g. 'pt-BR'
+  format: BriefingFormat;
+  mode: BriefingMode;
+}
+
+export interface BriefingPreset {
+  id: string;
+  name: string;
+  options: BriefingOptions;
+  builtIn?: boolean;
+}
+
+// Which AI backend to use and how to reach it. Empty strings fall back to
+// the adapter's defaults (e.g. the API_KEY from the environment).
+export interface ProviderSettings {
+  providerId: string;
+  apiKey: string;
+  summaryModel: string;
+  ttsModel: string;
+}
+
+// Automatic daily briefing from the saved queue
+export interface BriefingSchedule {
+  enabled: boolean;
+  time: string; // local "HH:MM"
+  days: number[]; // 0 = Sunday, as in Date.getDay()
+}
+
+export interface TranscriptSegment {
+  text: string;
+  start: number; // seconds
+  end: number; // seconds
+  speaker?: string;
+  // Ids of the articles the sentence is attributed to
+  sources?: string[];
+  // Names and numbers found in none of the source articles
+  unsupported?: string[];
+}
+
+// A jump point in the briefing, usually one per source article
+export interface Chapter {
+  title: string;
+  start: number; // seconds
+  // Absent for the opening, which covers no single article
+  articleId?: string;
+}
+
+export interface Briefing {
+  id: string;
+  title: string;
+  createdAt: number;
+  voice: TTSVoice;
+  // Second host's voice, for dialogue briefings
+  coHostVoice?: TTSVoice;
+  duration: number; // seconds
+  script: string;
+  // Sentence timing map; absent on briefings saved before it existed
+  segments?: TranscriptSegment[];
+  chapters?: Chapter[];
+  options?: BriefingOptions;
+  // Links back to the queue; titles are snapshotted because the source
+  // articles may be removed long before the briefing is replayed
+  articleIds: string[];
+  articleTitles: string[];
+  // Fingerprint of each article's title and text as narrated, parallel to
+  // articleIds; absent on briefings saved before edits were tracked
+  articleVersions?: string[];
+  // Last time an update with newer stories was appended
+  updatedAt?: number;
+}
+
+export type UsageOperation = 'summarize' | 'synthesize';
+
+// One API call, as reported by the provider adapter
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  providerId: string;
+  model: string;
+  operation: UsageOperation;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number; // text sent to speech synthesis
+  audioSeconds: number;
+  latencyMs: number;
+  estimatedCost: number; // USD, from the local price table
+}
+
+// Spending limits in USD; 0 means no limit
+export interface UsageBudget {
+  dailyLimit: number;
+  monthlyLimit: number;
+  // 'warn' asks before going over, 'block' refuses to generate
+  action: 'warn' | 'block';
+}
+
+// A spoken form for a term the TTS model reads poorly
+export interface PronunciationRule {
+  term: string;
+  spoken: string;
+  // Only for briefings in this language code; every language when unset
+  language?: string;
+  // Matches regardless of case; off by default so "IA" doesn't hit "ia"
+  ignoreCase?: boolean;
+}
+
+export interface PronunciationSettings {
+  rules: PronunciationRule[];
+  // Spell out numbers, currencies, dates, units and abbreviations
+  normalize: boolean;
+}
+
+// Player output level, kept across briefings
+export interface PlaybackLevelSettings {
+  volume: number; // 0..1
+  // Loudness normalization and light compression
+  normalize: boolean;
+}
+
+export type MusicSoundKind = 'intro' | 'bed' | 'outro';
+
+// Optional music mixed over finished briefings
+export interface MusicSettings {
+  enabled: boolean;
+  // Intro and outro stings
+  jingles: boolean;
+  // Loudness of the bed and the stings relative to the speech, in dB
+  bedLevel: number;
+  jingleLevel: number;
+  // How far the bed drops while someone speaks, in dB
+  ducking: number;
+  // File names of user-provided sounds replacing the bundled ones
+  custom: Partial<Record<MusicSoundKind, string>>;
+}
+
+// Map step of a long summarization: each article condensed chunk by chunk
+export interface ArticleProgress {
+  title: string;
+  ready: number;
+  // 0 when the article fits the prompt as is
+  total: number;
+}
+
 export interface GenerationState {
-  status: 'idle' | 'summarizing' | 'generating_audio' | 'ready' | 'error';
+  // 'reviewing': the script is written and waits for approval before any
+  // audio is synthesized
+  status: 'idle' | 'summarizing' | 'reviewing' | 'generating_audio' | 'ready' | 'error';
   error?: string;
+  summaryProgress?: {
+    articles: ArticleProgress[];
+    // Notes are done and the final script is being written
+    composing: boolean;
+  };
+  // Chunked speech synthesis progress; failed holds chunk indices to retry
+  audioProgress?: {
+    ready: number;
+    total: number;
+    failed: number[];
+  };
+  // Set while waiting to resend a request that failed transiently
+  retry?: {
+    attempt: number;
+    delayMs: number;
+  };
 }
 
 export interface AudioData {
   buffer: AudioBuffer;
   duration: number;
+  // Raw 16-bit PCM as returned by the TTS model, kept so the briefing can be
+  // persisted and re-decoded without another API call
+  pcm: Uint8Array;
+  sampleRate: number;
 }